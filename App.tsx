@@ -1,89 +1,397 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { DataGrid } from './components/DataGrid';
-import { CleaningPanel } from './components/CleaningPanel';
-import { CleanerRow } from './types';
+import { CleaningPanel, RelevanceRequest } from './components/CleaningPanel';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { CleanerRow, CheckStatus, ImportMergeOptions, ImportSummary, ProjectMeta, ProjectSettings, RelevanceVerdict, AI_VERDICT_HEADERS, SOURCE_COLUMN, CONTACT_FIELDS, CONTACT_CHECK_COLUMN } from './types';
+import { HistoryState, EMPTY_HISTORY, createHistoryEntry, pushHistory, undoHistory, redoHistory } from './services/historyStack';
+import {
+  StoredProject, initProjects, listProjects, createProject, updateProjectMeta, duplicateProject, deleteProject,
+  loadProjectRows, saveProjectRows, loadProjectHistory, saveProjectHistory, getActiveProjectId, setActiveProjectId
+} from './services/projectStore';
+import { loadLlmSettings, saveLlmSettings, stripApiKeys, withSavedApiKeys } from './services/llmProviders';
+import { SYSTEM_PROMPT_EXTRACT, SYSTEM_PROMPT_FILTER } from './services/openRouterService';
+import { mergeImportedRows } from './services/importMerge';
+import { ClusterResolution } from './services/rowDedupe';
+import { applyParsedContacts, hasParsedContacts } from './services/contactParser';
+import { createDefaultPrefilterRules } from './services/prefilterRules';
 
-// Standard Headers
-const HEADERS = ['状态', '用户名', '抖音号', '粉丝数', '简介', '联系方式'];
+// Standard Headers; the project's custom extraction columns go between 联系方式 and the AI columns
+const BASE_HEADERS = ['状态', '用户名', '抖音号', '粉丝数', '简介', '联系方式'];
 
 const INITIAL_ROWS: CleanerRow[] = [
   { _internal_id: 1, checkStatus: 'unverified', 用户名: '示例-国际物流', 抖音号: 'example_logistics', 粉丝数: '1.2w', 简介: '专注欧美FBA头程，双清包税', 联系方式: '13800000000' }
 ];
 
 interface ProjectState {
+  id: string;
   rows: CleanerRow[];
+  settings: ProjectSettings;
 }
 
+const createDefaultProjectSettings = (): ProjectSettings => ({
+  filterPrompt: SYSTEM_PROMPT_FILTER,
+  extractPrompt: SYSTEM_PROMPT_EXTRACT,
+  defaultPromptIds: {},
+  llm: stripApiKeys(loadLlmSettings()),
+  views: [],
+  exportProfiles: [],
+  prefilterRules: createDefaultPrefilterRules(),
+  extractFields: []
+});
+
 export default function App() {
   // --- Data Logic State ---
-  const [project, setProject] = useState<ProjectState>(() => {
-    const savedRows = localStorage.getItem('cleaner_db');
-    return {
-      rows: savedRows ? JSON.parse(savedRows) : INITIAL_ROWS
+  // Empty until the active project has been loaded from IndexedDB
+  const [project, setProject] = useState<ProjectState>(() => ({
+    id: '',
+    rows: [],
+    settings: createDefaultProjectSettings()
+  }));
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [loadError, setLoadError] = useState('');
+  // Rows selected in the grid waiting to be picked up by the relevance check in CleaningPanel
+  const [relevanceRequest, setRelevanceRequest] = useState<RelevanceRequest | null>(null);
+
+  // --- Undo/Redo State ---
+  // Refs hold the latest values so several mutations in one tick (e.g. batch callbacks) chain correctly
+  const rowsRef = useRef<CleanerRow[]>(project.rows);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const historyRef = useRef<HistoryState>(history);
+  const [historyNotice, setHistoryNotice] = useState('');
+
+  // --- Persistence ---
+  // Writes are debounced; switching projects flushes first so nothing lands in the wrong project
+  const projectIdRef = useRef('');
+  const pendingSaveRef = useRef<{ id: string; rows?: CleanerRow[]; history?: HistoryState } | null>(null);
+  const saveTimerRef = useRef<number | undefined>(undefined);
+
+  const refreshProjects = async () => setProjects(await listProjects());
+
+  const flushPendingSave = async () => {
+    window.clearTimeout(saveTimerRef.current);
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (!pending) return;
+    try {
+      await Promise.all([
+        pending.rows ? saveProjectRows(pending.id, pending.rows) : undefined,
+        pending.history ? saveProjectHistory(pending.id, pending.history) : undefined
+      ]);
+      await refreshProjects();
+    } catch (e) {
+      console.error("[App] Failed to save project.", e);
+    }
+  };
+
+  const scheduleSave = (changes: { rows?: CleanerRow[]; history?: HistoryState }) => {
+    const id = projectIdRef.current;
+    if (!id) return;
+    pendingSaveRef.current = { ...pendingSaveRef.current, id, ...changes };
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(flushPendingSave, 500);
+  };
+
+  // Best effort flush when the window is hidden or closed
+  useEffect(() => {
+    const handleHide = () => { if (document.visibilityState === 'hidden') flushPendingSave(); };
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('beforeunload', flushPendingSave);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('beforeunload', flushPendingSave);
     };
+  }, []);
+
+  const loadProject = async (meta: StoredProject) => {
+    const [rows, savedHistory] = await Promise.all([loadProjectRows(meta.id), loadProjectHistory(meta.id)]);
+    projectIdRef.current = meta.id;
+    rowsRef.current = rows;
+    historyRef.current = savedHistory;
+    setProject({
+      id: meta.id,
+      rows,
+      // Defaults first, so projects saved before a setting existed still get a value for it
+      settings: { ...createDefaultProjectSettings(), ...meta.settings, llm: withSavedApiKeys(meta.settings.llm) }
+    });
+    setHistory(savedHistory);
+    setHistoryNotice('');
+    setActiveProjectId(meta.id);
+  };
+
+  // Initial load (migrates the old localStorage table on first run)
+  useEffect(() => {
+    (async () => {
+      try {
+        const list = await initProjects(createDefaultProjectSettings(), INITIAL_ROWS);
+        setProjects(list);
+        const activeId = getActiveProjectId();
+        await loadProject(list.find(p => p.id === activeId) || list[0]);
+      } catch (e: any) {
+        console.error("[App] Failed to open project database.", e);
+        setLoadError(e?.message || String(e));
+      }
+    })();
+  }, []);
+
+  const setRows = (rows: CleanerRow[]) => {
+    rowsRef.current = rows;
+    setProject(prev => ({ ...prev, rows }));
+    scheduleSave({ rows });
+  };
+
+  const updateHistory = (next: HistoryState) => {
+    historyRef.current = next;
+    setHistory(next);
+    scheduleSave({ history: next });
+  };
+
+  // Every table mutation goes through here so it lands on the undo stack
+  const commitRows = (label: string, updater: (rows: CleanerRow[]) => CleanerRow[], coalesceKey?: string) => {
+    const prevRows = rowsRef.current;
+    const nextRows = updater(prevRows);
+    const entry = createHistoryEntry(prevRows, nextRows, label, coalesceKey);
+    if (!entry) return;
+    setRows(nextRows);
+    updateHistory(pushHistory(historyRef.current, entry));
+    setHistoryNotice('');
+  };
+
+  // --- Project Management ---
+  // The switcher calls these without awaiting. loadProject only touches state once everything is read,
+  // so a failed IndexedDB call leaves the current project open; the list is re-read to match the database.
+  const runProjectAction = async (action: string, task: () => Promise<void>) => {
+    try {
+      await task();
+    } catch (e: any) {
+      console.error(`[App] Project action failed: ${action}`, e);
+      alert(`${action}失败: ${e?.message || String(e)}`);
+      refreshProjects().catch(() => { /* already reported */ });
+    }
+  };
+
+  const handleSwitchProject = (id: string) => runProjectAction('切换项目', async () => {
+    if (id === projectIdRef.current) return;
+    await flushPendingSave();
+    const meta = (await listProjects()).find(p => p.id === id);
+    if (meta) await loadProject(meta);
+  });
+
+  const handleCreateProject = (name: string) => runProjectAction('新建项目', async () => {
+    await flushPendingSave();
+    const created = await createProject(name, createDefaultProjectSettings());
+    await refreshProjects();
+    await loadProject(created);
   });
 
+  const handleRenameProject = (id: string, name: string) => runProjectAction('重命名项目', async () => {
+    await updateProjectMeta(id, { name });
+    await refreshProjects();
+  });
+
+  const handleDuplicateProject = (id: string) => runProjectAction('复制项目', async () => {
+    await flushPendingSave();
+    const source = projects.find(p => p.id === id);
+    const copy = await duplicateProject(id, `${source?.name || '项目'} 副本`);
+    await refreshProjects();
+    if (copy) await loadProject(copy);
+  });
+
+  const handleDeleteProject = (id: string) => runProjectAction('删除项目', async () => {
+    await flushPendingSave();
+    await deleteProject(id);
+    const remaining = await listProjects();
+    setProjects(remaining);
+    if (id === projectIdRef.current && remaining.length > 0) await loadProject(remaining[0]);
+  });
+
+  // Filter prompt and model settings belong to the project; API keys are saved globally
+  const handleSettingsChange = (settings: ProjectSettings) => {
+    setProject(prev => ({ ...prev, settings }));
+    saveLlmSettings(settings.llm);
+    const id = projectIdRef.current;
+    if (id) {
+      updateProjectMeta(id, { settings: { ...settings, llm: stripApiKeys(settings.llm) } })
+        .catch(e => console.error("[App] Failed to save project settings.", e));
+    }
+  };
+
+  const handleUndo = () => {
+    const result = undoHistory(historyRef.current, rowsRef.current);
+    if (!result) return;
+    setRows(result.rows);
+    updateHistory(result.history);
+    setHistoryNotice(`已撤销: ${result.label}`);
+  };
+
+  const handleRedo = () => {
+    const result = redoHistory(historyRef.current, rowsRef.current);
+    if (!result) return;
+    setRows(result.rows);
+    updateHistory(result.history);
+    setHistoryNotice(`已重做: ${result.label}`);
+  };
+
+  // Ctrl+Z / Ctrl+Y (Ctrl+Shift+Z). Text fields outside the grid's cells keep their native undo.
   useEffect(() => {
-    localStorage.setItem('cleaner_db', JSON.stringify(project.rows));
-  }, [project]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      const isTextField = target.tagName === 'TEXTAREA' || target.tagName === 'INPUT' || target.tagName === 'SELECT';
+      if (isTextField && !target.closest('[data-undo-scope="grid"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Once contacts have been parsed in this project, rows that arrive later (AI extraction, import) are parsed
+  // on the way in, so their structured contact columns and 联系方式检查 flag are never missing
+  const tracksParsedContacts = (rows: CleanerRow[]) => rows.some(hasParsedContacts);
 
   const handleAddRows = (newRows: CleanerRow[]) => {
     // New rows are always unverified by default
     const rowsWithStatus = newRows.map(r => ({ ...r, checkStatus: 'unverified' as const }));
-    setProject(prev => ({ rows: [...prev.rows, ...rowsWithStatus] }));
+    commitRows(`AI 提取新增 ${newRows.length} 行`, rows => [
+      ...rows,
+      ...(tracksParsedContacts(rows) ? rowsWithStatus.map(applyParsedContacts) : rowsWithStatus)
+    ]);
   };
 
   const handleRemoveRows = (idsToRemove: (string | number)[]) => {
     const idSet = new Set(idsToRemove);
-    setProject(prev => ({
-      rows: prev.rows.filter(row => !idSet.has(row._internal_id!))
-    }));
+    commitRows(`删除 ${idsToRemove.length} 行`, rows => rows.filter(row => !idSet.has(row._internal_id!)));
   };
 
   // Batch update status (e.g., mark as verified after AI check)
-  const handleUpdateStatus = (ids: (string | number)[], status: 'verified' | 'unverified') => {
+  const handleUpdateStatus = (ids: (string | number)[], status: CheckStatus) => {
     const idSet = new Set(ids);
-    setProject(prev => ({
-      rows: prev.rows.map(row => {
-        if (idSet.has(row._internal_id!)) {
-          return { ...row, checkStatus: status };
-        }
-        return row;
-      })
+    commitRows(`更新 ${ids.length} 行状态`, rows => rows.map(row => {
+      if (idSet.has(row._internal_id!)) {
+        return { ...row, checkStatus: status };
+      }
+      return row;
     }));
   };
 
-  const handleCellEdit = (rowId: number | string, column: string, value: any) => {
-    setProject(prev => {
-      const newRows = prev.rows.map(row => {
-        if (row._internal_id === rowId) {
-          const updatedRow = { ...row, [column]: value };
-          // If critical fields change, reset status to unverified so it gets checked again next time
-          if (column === '用户名' || column === '简介') {
-            updatedRow.checkStatus = 'unverified';
+  // Store the AI's explained verdicts on the rows. Kept rows are marked verified; proposed removals are
+  // only flagged for review, the AI never deletes rows on its own.
+  const handleApplyVerdicts = (verdicts: RelevanceVerdict[]) => {
+    const verdictMap = new Map(verdicts.map(v => [v.id, v]));
+    commitRows(`AI 清洗判定 ${verdicts.length} 行`, rows => rows.map(row => {
+      const v = verdictMap.get(row._internal_id!);
+      if (!v) return row;
+      return {
+        ...row,
+        checkStatus: v.verdict === 'keep' ? 'verified' as const : 'flagged' as const,
+        AI判定: v.verdict === 'keep' ? '保留' : '移除',
+        AI分类: v.category,
+        AI置信度: Math.round(v.confidence * 100),
+        AI理由: v.reason
+      };
+    }));
+  };
+
+  // Review queue: accepting deletes the flagged rows, rejecting keeps them as verified
+  const handleResolveFlagged = (ids: (string | number)[], accept: boolean) => {
+    const idSet = new Set(ids);
+    commitRows(accept ? `确认移除 ${ids.length} 行` : `保留 ${ids.length} 行`, rows => accept
+      ? rows.filter(row => !(idSet.has(row._internal_id!) && row.checkStatus === 'flagged'))
+      : rows.map(row => {
+          if (idSet.has(row._internal_id!) && row.checkStatus === 'flagged') {
+            return { ...row, checkStatus: 'verified' as const, AI判定: '保留(人工)' };
           }
-          return updatedRow;
+          return row;
+        })
+    );
+  };
+
+  const handleCellEdit = (rowId: number | string, column: string, value: any) => {
+    // Typing in one cell coalesces into a single undo step
+    commitRows(`编辑 ${column}`, rows => rows.map(row => {
+      if (row._internal_id === rowId) {
+        const updatedRow = { ...row, [column]: value };
+        // If critical fields change, reset status to unverified so it gets checked again next time
+        if (column === '用户名' || column === '简介') {
+          updatedRow.checkStatus = 'unverified';
         }
-        return row;
-      });
-      return { ...prev, rows: newRows };
-    });
+        // Parsed contacts follow the text they came from
+        if ((column === '联系方式' || column === '简介') && hasParsedContacts(row)) {
+          return applyParsedContacts(updatedRow);
+        }
+        return updatedRow;
+      }
+      return row;
+    }), `edit:${rowId}:${column}`);
   };
 
-  const handleImportData = (newRows: CleanerRow[]) => {
-    if (newRows.length > 0) {
-      // Imported rows are unverified
-      const rowsWithStatus = newRows.map(r => ({ ...r, checkStatus: 'unverified' as const }));
-      setProject(prev => ({ rows: [...prev.rows, ...rowsWithStatus] }));
-    }
+  // Bulk edit from the grid selection; same status reset rule as a single-cell edit
+  const handleSetColumnValue = (ids: (number | string)[], column: string, value: string) => {
+    const idSet = new Set(ids);
+    commitRows(`设置 ${ids.length} 行 ${column}`, rows => rows.map(row => {
+      if (!idSet.has(row._internal_id!)) return row;
+      const updatedRow = { ...row, [column]: value };
+      if (column === '用户名' || column === '简介') {
+        updatedRow.checkStatus = 'unverified';
+      }
+      if ((column === '联系方式' || column === '简介') && hasParsedContacts(row)) {
+        return applyParsedContacts(updatedRow);
+      }
+      return updatedRow;
+    }));
+  };
+
+  const handleParseContacts = (ids: (number | string)[]) => {
+    const idSet = new Set(ids);
+    commitRows(`解析 ${ids.length} 行联系方式`, rows => rows.map(row => idSet.has(row._internal_id!) ? applyParsedContacts(row) : row));
+  };
+
+  // Dedupe tool: each survivor replaces its row in place, the other rows of its cluster are deleted
+  const handleMergeDuplicates = (resolutions: ClusterResolution[]) => {
+    if (resolutions.length === 0) return;
+    const survivors = new Map(resolutions.map(r => [r.survivor._internal_id!, r.survivor]));
+    const removeIds = new Set(resolutions.flatMap(r => r.removeIds));
+    commitRows(`去重: ${resolutions.length} 组，删除 ${removeIds.size} 行`, rows => rows
+      .filter(row => !removeIds.has(row._internal_id!))
+      .map(row => survivors.get(row._internal_id!) || row)
+    );
+  };
+
+  // Duplicates of existing rows are skipped or merged per the options chosen in the import dialog
+  const handleImportData = (newRows: CleanerRow[], options: ImportMergeOptions): ImportSummary => {
+    // Imported rows are unverified
+    const rowsWithStatus = newRows.map(r => ({ ...r, checkStatus: 'unverified' as const }));
+    const { rows, summary } = mergeImportedRows(rowsRef.current, rowsWithStatus, options);
+    // Added and merged rows are new objects; re-parse them, leave untouched rows alone
+    const untouched = new Set(rowsRef.current);
+    const parsedRows = tracksParsedContacts(rowsRef.current)
+      ? rows.map(row => untouched.has(row) ? row : applyParsedContacts(row))
+      : rows;
+    commitRows(`导入: 新增 ${summary.added} 行，合并 ${summary.merged} 行`, () => parsedRows);
+    return summary;
   };
 
   const resetDatabase = () => {
-    // Directly clear state and storage. Confirmation is handled in the UI component now.
-    setProject({ rows: [] });
-    localStorage.setItem('cleaner_db', JSON.stringify([]));
+    // Confirmation is handled in the UI component. Clear All stays undoable via the history stack.
+    commitRows('清空所有数据', () => []);
   };
 
+  // The contact columns show up once contacts have been parsed, the 来源 column once an import has recorded it
+  const headers = useMemo(() => [
+    ...BASE_HEADERS,
+    ...project.settings.extractFields.map(f => f.column),
+    ...AI_VERDICT_HEADERS,
+    ...(project.rows.some(hasParsedContacts) ? [...CONTACT_FIELDS, CONTACT_CHECK_COLUMN] : []),
+    ...(project.rows.some(row => row[SOURCE_COLUMN]) ? [SOURCE_COLUMN] : [])
+  ], [project.rows, project.settings.extractFields]);
+
   return (
     <div className="h-screen w-screen flex flex-col bg-[#F3F3F3] overflow-hidden font-segoe">
       {/* Windows 10 Title Bar Style Header */}
@@ -93,22 +401,62 @@ export default function App() {
             D
           </div>
           <span className="text-xs text-[#333333]">抖音数据清洗工具 Pro</span>
+          <div className="app-region-no-drag ml-2">
+            <ProjectSwitcher
+              projects={projects}
+              activeProjectId={project.id}
+              onSwitch={handleSwitchProject}
+              onCreate={handleCreateProject}
+              onRename={handleRenameProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+            />
+          </div>
         </div>
         <div className="flex items-center gap-4 app-region-no-drag">
-          <span className="text-[10px] text-[#999999]">Auto-saved to LocalStorage</span>
+          {historyNotice && <span className="text-[10px] text-[#0078D7]">{historyNotice}</span>}
+          <div className="flex items-center">
+            <button
+              onClick={handleUndo}
+              disabled={history.past.length === 0}
+              title={history.past.length > 0 ? `撤销: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : '没有可撤销的操作'}
+              className="px-2 text-xs text-[#333333] hover:bg-[#E5E5E5] disabled:text-[#CCCCCC] disabled:hover:bg-transparent"
+            >
+              ↶ 撤销
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={history.future.length === 0}
+              title={history.future.length > 0 ? `重做: ${history.future[history.future.length - 1].label} (Ctrl+Y)` : '没有可重做的操作'}
+              className="px-2 text-xs text-[#333333] hover:bg-[#E5E5E5] disabled:text-[#CCCCCC] disabled:hover:bg-transparent"
+            >
+              ↷ 重做
+            </button>
+          </div>
+          <span className="text-[10px] text-[#999999]">Auto-saved to IndexedDB</span>
         </div>
       </header>
 
+      {loadError && (
+        <div className="px-3 py-1 text-xs bg-red-50 text-red-700 border-b border-red-200">
+          无法打开本地数据库 (IndexedDB): {loadError}
+        </div>
+      )}
+
       {/* Main Content Layout */}
       <main className="flex-1 flex overflow-hidden">
         {/* Left Panel: Controls - Windows 10 Side Panel Style */}
         <aside className="w-[360px] bg-[#F2F2F2] border-r border-[#D9D9D9] flex flex-col z-10">
           <CleaningPanel 
+            key={project.id}
             currentRows={project.rows}
+            settings={project.settings}
+            onSettingsChange={handleSettingsChange}
             onAddRows={handleAddRows}
-            onRemoveRows={handleRemoveRows}
-            onUpdateStatus={handleUpdateStatus}
+            onApplyVerdicts={handleApplyVerdicts}
             onClearAll={resetDatabase}
+            relevanceRequest={relevanceRequest}
+            onRelevanceRequestHandled={() => setRelevanceRequest(null)}
           />
         </aside>
 
@@ -116,10 +464,22 @@ export default function App() {
         <section className="flex-1 flex flex-col min-w-0 bg-white">
           <div className="flex-1 overflow-hidden flex flex-col">
             <DataGrid 
+              key={project.id}
               data={project.rows}
-              headers={HEADERS}
+              headers={headers}
               onImportData={handleImportData}
               onCellEdit={handleCellEdit}
+              onResolveFlagged={handleResolveFlagged}
+              views={project.settings.views}
+              onViewsChange={(views) => handleSettingsChange({ ...project.settings, views })}
+              exportProfiles={project.settings.exportProfiles}
+              onExportProfilesChange={(exportProfiles) => handleSettingsChange({ ...project.settings, exportProfiles })}
+              onDeleteRows={handleRemoveRows}
+              onUpdateStatus={handleUpdateStatus}
+              onSetColumnValue={handleSetColumnValue}
+              onSendToRelevance={(ids) => setRelevanceRequest({ ids, requestedAt: Date.now() })}
+              onMergeDuplicates={handleMergeDuplicates}
+              onParseContacts={handleParseContacts}
             />
           </div>
         </section>
@@ -1,37 +1,97 @@
-import React, { useState, useEffect } from 'react';
-import { CleanerRow, ParsedProfile } from '../types';
-import { extractProfilesFromText, filterIrrelevantProfiles, ApiError, SYSTEM_PROMPT_FILTER } from '../services/openRouterService';
+import React, { useState, useEffect, useRef, useMemo, useDeferredValue } from 'react';
+import { CleanerRow, ExtractionResult, FailedChunk, LlmConfig, LlmProviderId, LlmProviderSettings, LlmSettings, ParsedProfile, ProjectSettings, PromptKind, RelevanceVerdict } from '../types';
+import { extractProfilesFromText, retryFailedChunks, filterIrrelevantProfiles, ApiError } from '../services/openRouterService';
+import { MAX_CONCURRENCY } from '../services/batchRunner';
+import { LLM_PROVIDERS, LLM_PROVIDER_IDS, getActiveLlmConfig, validateLlmConfig, getChunkingOptions, setChunkTokenBudget } from '../services/llmProviders';
+import { chunkTextByTokens, estimateTokens, MIN_CHUNK_TOKENS } from '../services/textChunker';
+import { runPrefilter } from '../services/prefilterRules';
+import { PrefilterRulesEditor } from './PrefilterRulesEditor';
+import { PromptLibraryDialog } from './PromptLibraryDialog';
+import { ExtractSchemaDialog } from './ExtractSchemaDialog';
+import { applyExtractFields } from '../services/extractSchema';
+import { loadPromptTemplates, resolveDefaultPrompt } from '../services/promptLibrary';
 
 interface CleaningPanelProps {
   currentRows: CleanerRow[];
+  settings: ProjectSettings;
+  onSettingsChange: (settings: ProjectSettings) => void;
   onAddRows: (newRows: CleanerRow[]) => void;
-  onRemoveRows: (ids: (string | number)[]) => void;
-  onUpdateStatus: (ids: (string | number)[], status: 'verified' | 'unverified') => void;
+  onApplyVerdicts: (verdicts: RelevanceVerdict[]) => void;
   onClearAll: () => void;
+  relevanceRequest: RelevanceRequest | null;
+  onRelevanceRequestHandled: () => void;
 }
 
-export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAddRows, onRemoveRows, onUpdateStatus, onClearAll }) => {
+// Rows sent from the grid selection for a relevance check; requestedAt makes repeated requests distinct
+export interface RelevanceRequest {
+  ids: (string | number)[];
+  requestedAt: number;
+}
+
+// Stop button shown next to the primary action while an AI job is running
+const StopButton = ({ onClick }: { onClick: () => void }) => (
+  <button 
+    onClick={onClick}
+    title="停止任务，已完成的批次会保留"
+    className="px-4 py-1.5 text-sm text-white bg-[#C42B1C] hover:bg-[#A52A1D] active:bg-[#8E2418] transition-colors border-none rounded-none"
+  >
+    停止
+  </button>
+);
+
+export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, settings, onSettingsChange, onAddRows, onApplyVerdicts, onClearAll, relevanceRequest, onRelevanceRequestHandled }) => {
   const [activeTab, setActiveTab] = useState<'initial' | 'relevance'>('initial');
-  const [apiKey, setApiKey] = useState('');
+  const llmSettings = settings.llm;
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [status, setStatus] = useState('');
   const [debugLog, setDebugLog] = useState<string | null>(null);
 
+  // Chunks that failed after retries or were cancelled in the last extraction run
+  const [failedChunks, setFailedChunks] = useState<FailedChunk[]>([]);
+  const [failedChunksTotal, setFailedChunksTotal] = useState(0);
+
+  // Controller for the running AI job, so the Stop button can abort in-flight requests
+  const abortControllerRef = useRef<AbortController | null>(null);
+
   // Reset Confirmation State
   const [isConfirmingReset, setIsConfirmingReset] = useState(false);
 
-  // New State for Editable Prompt
-  const [filterPrompt, setFilterPrompt] = useState(SYSTEM_PROMPT_FILTER);
+  // Editable Prompts, saved with the project
+  const filterPrompt = settings.filterPrompt;
+  const setFilterPrompt = (val: string) => onSettingsChange({ ...settings, filterPrompt: val });
+  const extractPrompt = settings.extractPrompt;
+  const setExtractPrompt = (val: string) => onSettingsChange({ ...settings, extractPrompt: val });
+  const [isEditingExtractPrompt, setIsEditingExtractPrompt] = useState(false);
+  const [promptLibraryKind, setPromptLibraryKind] = useState<PromptKind | null>(null);
+  const [isEditingSchema, setIsEditingSchema] = useState(false);
+  const extractFields = settings.extractFields;
+
+  // The project's default template if it has one, otherwise the built-in prompt
+  const getDefaultPrompt = (kind: PromptKind) => resolveDefaultPrompt(kind, settings.defaultPromptIds[kind], loadPromptTemplates());
 
   // Stats for the relevance tab
-  const unverifiedCount = currentRows.filter(r => r.checkStatus !== 'verified').length;
-  const verifiedCount = currentRows.length - unverifiedCount;
+  const flaggedCount = currentRows.filter(r => r.checkStatus === 'flagged').length;
+  const verifiedCount = currentRows.filter(r => r.checkStatus === 'verified').length;
+  const unverifiedCount = currentRows.length - verifiedCount - flaggedCount;
+  const unverifiedRows = useMemo(
+    () => currentRows.filter(r => r.checkStatus !== 'verified' && r.checkStatus !== 'flagged'),
+    [currentRows]
+  );
 
-  useEffect(() => {
-    const storedKey = localStorage.getItem('openrouter_api_key');
-    if (storedKey) setApiKey(storedKey);
-  }, []);
+  const activeProvider = LLM_PROVIDERS[llmSettings.activeProvider];
+  const activeProviderSettings = llmSettings.providers[llmSettings.activeProvider];
+  const chunkingOptions = getChunkingOptions(llmSettings);
+
+  // Preview how the paste will be batched; deferred so typing in a huge paste stays responsive
+  const deferredInputText = useDeferredValue(inputText);
+  const chunkPreview = useMemo(() => {
+    if (!deferredInputText.trim()) return null;
+    return {
+      batches: chunkTextByTokens(deferredInputText, chunkingOptions).length,
+      tokens: estimateTokens(deferredInputText)
+    };
+  }, [deferredInputText, chunkingOptions.maxTokens, chunkingOptions.overlapTokens]);
 
   // Auto-cancel reset confirmation after 3 seconds
   useEffect(() => {
@@ -41,64 +101,119 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
     }
   }, [isConfirmingReset]);
 
-  const handleSaveKey = (val: string) => {
-    setApiKey(val);
-    localStorage.setItem('openrouter_api_key', val);
+  const updateLlmSettings = (next: LlmSettings) => onSettingsChange({ ...settings, llm: next });
+
+  // Stop any running job when the panel goes away (e.g. switching projects), and make sure
+  // its late results are not written into whichever project is open by then
+  const isMountedRef = useRef(true);
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  const handleSelectProvider = (provider: LlmProviderId) => {
+    updateLlmSettings({ ...llmSettings, activeProvider: provider });
   };
 
-  const handleClearKey = () => {
-    setApiKey('');
-    localStorage.removeItem('openrouter_api_key');
+  // Patch the settings of the currently selected provider only
+  const handleProviderFieldChange = (field: keyof LlmProviderSettings, val: string) => {
+    const providerId = llmSettings.activeProvider;
+    updateLlmSettings({
+      ...llmSettings,
+      providers: {
+        ...llmSettings.providers,
+        [providerId]: { ...llmSettings.providers[providerId], [field]: val }
+      }
+    });
   };
 
-  const handleInitialCleaning = async () => {
-    if (!inputText.trim()) { alert("请输入需要清洗的内容"); return; }
-    if (!apiKey) { alert("请先输入 OpenRouter API Key"); return; }
+  const handleClearKey = () => handleProviderFieldChange('apiKey', '');
+
+  // Budget is stored per provider + model, since context sizes differ between models
+  const handleChunkBudgetChange = (val: string) => {
+    const n = Number(val);
+    if (!isNaN(n) && n > 0) updateLlmSettings(setChunkTokenBudget(llmSettings, n));
+  };
+
+  const handleOverlapChange = (val: string) => {
+    const n = Math.floor(Number(val));
+    if (!isNaN(n) && n >= 0) updateLlmSettings({ ...llmSettings, overlapTokens: n });
+  };
+
+  const handleConcurrencyChange = (val: string) => {
+    const n = Math.floor(Number(val));
+    if (!isNaN(n)) updateLlmSettings({ ...llmSettings, concurrency: Math.max(1, Math.min(MAX_CONCURRENCY, n)) });
+  };
+
+  // Append extracted profiles as new rows, skipping 抖音号 that already exist in the table
+  const appendProfiles = (profiles: ParsedProfile[]) => {
+    const newRows: CleanerRow[] = [];
+    let duplicateCount = 0;
+    const existingIds = new Set(currentRows.map(r => String(r.抖音号 || "").trim()));
+
+    profiles.forEach(p => {
+      const dId = String(p.douyinId || "").trim();
+      // Skip duplicate Douyin IDs if they already exist in the table
+      if (dId && existingIds.has(dId)) {
+        duplicateCount++;
+      } else {
+        newRows.push(applyExtractFields({
+          _internal_id: Date.now() + Math.random(),
+          checkStatus: 'unverified',
+          用户名: p.username,
+          抖音号: p.douyinId,
+          粉丝数: p.fans,
+          简介: p.bio,
+          联系方式: p.contact
+        }, p, extractFields));
+        if(dId) existingIds.add(dId);
+      }
+    });
+
+    if (newRows.length > 0) onAddRows(newRows);
+    return { addedCount: newRows.length, duplicateCount };
+  };
 
+  // Shared runner for the first extraction pass and for "retry failed batches"
+  const runExtractionJob = async (
+    job: (llmConfig: LlmConfig, onProgress: (current: number, total: number) => void, signal: AbortSignal) => Promise<ExtractionResult>
+  ) => {
+    const llmConfig = getActiveLlmConfig(llmSettings);
+    const configError = validateLlmConfig(llmConfig);
+    if (configError) { alert(configError); return; }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setStatus("准备开始...");
     setDebugLog(null);
 
     try {
       const onProgress = (current: number, total: number) => {
-        // Show the 500-line batch logic to the user
-        setStatus(`正在自动分批处理 (500行/批): 第 ${current} / ${total} 批...`);
+        // Show the token-window batch logic to the user
+        setStatus(`正在自动分批处理 (≈${chunkingOptions.maxTokens} tokens/批, 并发 ${llmSettings.concurrency}): 已完成 ${current} / ${total} 批...`);
       };
 
       // Calling the service which now handles batching internally
-      const parsedData = await extractProfilesFromText(inputText, apiKey, onProgress);
-      
-      if (parsedData.length === 0) {
-        setStatus("未提取到数据，请检查输入或 Key 配额。");
-        setIsLoading(false);
+      const result = await job(llmConfig, onProgress, controller.signal);
+      if (!isMountedRef.current) return;
+      const pendingChunks = [...result.failedChunks, ...result.cancelledChunks].sort((a, b) => a.index - b.index);
+      setFailedChunks(pendingChunks);
+      setFailedChunksTotal(result.totalChunks);
+
+      const wasCancelled = controller.signal.aborted;
+      const batchNote = `批次: 完成 ${result.completedCount}，失败 ${result.failedChunks.length}，取消 ${result.cancelledChunks.length}`;
+
+      if (result.profiles.length === 0) {
+        setStatus(`${wasCancelled ? '已停止' : '未提取到数据，请检查输入或 Key 配额'}。${batchNote}`);
         return;
       }
 
-      const newRows: CleanerRow[] = [];
-      let duplicateCount = 0;
-      const existingIds = new Set(currentRows.map(r => String(r.抖音号 || "").trim()));
-
-      parsedData.forEach(p => {
-        const dId = String(p.douyinId || "").trim();
-        // Skip duplicate Douyin IDs if they already exist in the table
-        if (dId && existingIds.has(dId)) {
-          duplicateCount++;
-        } else {
-          newRows.push({
-            _internal_id: Date.now() + Math.random(),
-            checkStatus: 'unverified',
-            用户名: p.username,
-            抖音号: p.douyinId,
-            粉丝数: p.fans,
-            简介: p.bio,
-            联系方式: p.contact
-          });
-          if(dId) existingIds.add(dId);
-        }
-      });
-
-      onAddRows(newRows);
-      setStatus(`处理完成: 共提取 ${parsedData.length} 条 (新增 ${newRows.length}，重复 ${duplicateCount})`);
+      const { addedCount, duplicateCount } = appendProfiles(result.profiles);
+      setStatus(`${wasCancelled ? '已停止' : '处理完成'}: 共提取 ${result.profiles.length} 条 (新增 ${addedCount}，重复 ${duplicateCount}，窗口重叠合并 ${result.mergedCount})。${batchNote}`);
       
     } catch (e: any) {
       console.error(e);
@@ -107,50 +222,101 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
          setDebugLog(e.rawResponse);
       }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const handleRelevanceCleaning = async () => {
+  const handleInitialCleaning = () => {
+    if (!inputText.trim()) { alert("请输入需要清洗的内容"); return; }
+    runExtractionJob((llmConfig, onProgress, signal) =>
+      extractProfilesFromText(inputText, llmConfig, onProgress, { concurrency: llmSettings.concurrency, chunking: chunkingOptions, signal, extractPrompt, extractFields })
+    );
+  };
+
+  const handleRetryFailedChunks = () => {
+    if (failedChunks.length === 0) return;
+    runExtractionJob((llmConfig, onProgress, signal) =>
+      retryFailedChunks(failedChunks, failedChunksTotal, llmConfig, onProgress, { concurrency: llmSettings.concurrency, signal, extractPrompt, extractFields })
+    );
+  };
+
+  const handleStop = () => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    setStatus("正在停止，等待进行中的请求结束...");
+  };
+
+  // Without onlyIds, checks every row that has no verdict yet. With onlyIds (rows selected in the grid),
+  // checks exactly those rows, including ones that were already verified or flagged.
+  const handleRelevanceCleaning = async (onlyIds?: Set<string | number>) => {
     if (currentRows.length === 0) { alert("无数据"); return; }
-    if (!apiKey) { alert("请输入 API Key"); return; }
-    if (!filterPrompt.trim()) { alert("清洗规则不能为空"); return; }
-    
-    const rowsToCheck = currentRows.filter(r => r.checkStatus !== 'verified');
+
+    // Flagged rows already have a verdict and are waiting in the review queue
+    const rowsToCheck = onlyIds
+      ? currentRows.filter(r => onlyIds.has(r._internal_id!))
+      : unverifiedRows;
     
     if (rowsToCheck.length === 0) {
       setStatus("所有数据已验证");
       return;
     }
 
+    // Local rules first; the AI (and its config) is only needed for the rows they leave undecided
+    const prefilter = runPrefilter(rowsToCheck, settings.prefilterRules);
+    const llmConfig = getActiveLlmConfig(llmSettings);
+    if (prefilter.deferred.length > 0) {
+      const configError = validateLlmConfig(llmConfig);
+      if (configError) { alert(configError); return; }
+      if (!filterPrompt.trim()) { alert("清洗规则不能为空"); return; }
+    }
+
+    const ruleKept = prefilter.verdicts.filter(v => v.verdict === 'keep').length;
+    const ruleNote = prefilter.verdicts.length > 0
+      ? `本地规则: 保留 ${ruleKept}，建议移除 ${prefilter.verdicts.length - ruleKept}。`
+      : '';
+    if (prefilter.verdicts.length > 0) onApplyVerdicts(prefilter.verdicts);
+    if (prefilter.deferred.length === 0) {
+      setStatus(`${ruleNote}全部 ${rowsToCheck.length} 行已由规则处理，未调用 AI`);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
-    setStatus(`正在分析 ${rowsToCheck.length} 条数据...`);
+    setStatus(`${ruleNote}正在分析 ${prefilter.deferred.length} 条数据...`);
     setDebugLog(null);
 
     try {
-      const payload = rowsToCheck.map(r => ({
+      const payload = prefilter.deferred.map(r => ({
         id: r._internal_id!,
         text: `用户名:${r.用户名}, 简介:${r.简介}`
       }));
 
-      // Pass the editable prompt to the service
-      const idsToRemove = await filterIrrelevantProfiles(payload, apiKey, filterPrompt);
-
-      if (Array.isArray(idsToRemove) && idsToRemove.length > 0) {
-        onRemoveRows(idsToRemove);
-      } 
+      const onProgress = (current: number, total: number) => {
+        setStatus(`正在分批清洗 (并发 ${llmSettings.concurrency}): 已完成 ${current} / ${total} 批...`);
+      };
 
-      const idsToRemoveSet = new Set(idsToRemove || []);
-      const survivorIds = rowsToCheck
-        .filter(r => !idsToRemoveSet.has(r._internal_id!))
-        .map(r => r._internal_id!);
+      // Apply each batch's decision as soon as it arrives, so a later failure keeps earlier progress.
+      // Removals are only flagged; they are deleted after review in the table.
+      const onBatchComplete = (verdicts: RelevanceVerdict[]) => {
+        if (isMountedRef.current) onApplyVerdicts(verdicts);
+      };
 
-      if (survivorIds.length > 0) {
-        onUpdateStatus(survivorIds, 'verified');
-      }
+      // Pass the editable prompt to the service
+      const result = await filterIrrelevantProfiles(payload, llmConfig, filterPrompt, onProgress, {
+        concurrency: llmSettings.concurrency,
+        maxTokens: chunkingOptions.maxTokens,
+        signal: controller.signal,
+        onBatchComplete
+      });
 
-      const removedCount = idsToRemove ? idsToRemove.length : 0;
-      setStatus(`完成: 移除 ${removedCount}，验证 ${survivorIds.length}`);
+      const batchNote = `批次: 完成 ${result.completedCount}，失败 ${result.failedCount}，取消 ${result.cancelledCount}`;
+      const skippedNote = result.skippedCount > 0 ? `，未返回判定 ${result.skippedCount}` : '';
+      const pendingNote = result.failedCount + result.cancelledCount + result.skippedCount > 0 ? '。未完成的行仍为待检查，可再次运行' : '';
+      const prefix = controller.signal.aborted ? '已停止' : '完成';
+      setStatus(`${ruleNote}${prefix}: 建议移除 ${result.flaggedIds.length} (待审核)，验证 ${result.verifiedIds.length}${skippedNote}。${batchNote}${pendingNote}`);
+      if (result.lastError) setDebugLog(result.lastError);
 
     } catch (e: any) {
       console.error(e);
@@ -159,10 +325,23 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
          setDebugLog(e.rawResponse);
       }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Selected rows sent from the grid: switch to the relevance tab and check just those rows
+  useEffect(() => {
+    if (!relevanceRequest) return;
+    onRelevanceRequestHandled();
+    setActiveTab('relevance');
+    if (isLoading) {
+      setStatus("已有任务正在运行，请等待完成或停止后再发送");
+      return;
+    }
+    handleRelevanceCleaning(new Set(relevanceRequest.ids));
+  }, [relevanceRequest]);
+
   // Comprehensive Reset Function
   const handleResetClick = () => {
     if (!isConfirmingReset) {
@@ -172,8 +351,10 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
 
     // Executing Reset
     // 1. Clear Local State
+    abortControllerRef.current?.abort();
     setInputText('');
-    setFilterPrompt(SYSTEM_PROMPT_FILTER); 
+    setFailedChunks([]);
+    onSettingsChange({ ...settings, filterPrompt: getDefaultPrompt('filter'), extractPrompt: getDefaultPrompt('extract') });
     setStatus('已重置所有数据');
     setDebugLog(null);
     setIsLoading(false);
@@ -185,24 +366,100 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
 
   return (
     <div className="flex flex-col h-full bg-[#F3F3F3]">
-      {/* API Key Input - Win10 style input */}
-      <div className="p-4 border-b border-[#E5E5E5] bg-white">
-        <label className="block text-[11px] text-[#666666] mb-1">OpenRouter API Key</label>
-        <div className="flex gap-1">
-          <input 
-            type="password" 
-            value={apiKey}
-            onChange={(e) => handleSaveKey(e.target.value)}
-            placeholder="sk-..."
-            className="flex-1 text-xs p-1.5 bg-white border border-[#999999] hover:border-[#666666] focus:border-[#0078D7] focus:ring-1 focus:ring-[#0078D7] outline-none transition-colors rounded-none placeholder-gray-400"
-          />
-          <button 
-            onClick={handleClearKey} 
-            title="清除 Key"
-            className="px-2 bg-[#F0F0F0] border border-[#CCCCCC] hover:bg-[#E0E0E0] text-[#666666]"
-          >
-            ✕
-          </button>
+      {isEditingSchema && (
+        <ExtractSchemaDialog
+          fields={extractFields}
+          onSave={(fields) => onSettingsChange({ ...settings, extractFields: fields })}
+          onClose={() => setIsEditingSchema(false)}
+        />
+      )}
+      {promptLibraryKind && (
+        <PromptLibraryDialog
+          initialKind={promptLibraryKind}
+          prompts={{ extract: extractPrompt, filter: filterPrompt }}
+          defaultPromptIds={settings.defaultPromptIds}
+          onApply={(kind, content) => onSettingsChange({ ...settings, [kind === 'filter' ? 'filterPrompt' : 'extractPrompt']: content })}
+          onSetDefault={(kind, templateId) => onSettingsChange({ ...settings, defaultPromptIds: { ...settings.defaultPromptIds, [kind]: templateId } })}
+          onClose={() => setPromptLibraryKind(null)}
+        />
+      )}
+      {/* AI Provider Settings - Win10 style inputs */}
+      <div className="p-4 border-b border-[#E5E5E5] bg-white space-y-2">
+        <div className="flex gap-2">
+          <div className="w-[130px]">
+            <label className="block text-[11px] text-[#666666] mb-1">AI 服务商</label>
+            <select
+              value={llmSettings.activeProvider}
+              onChange={(e) => handleSelectProvider(e.target.value as LlmProviderId)}
+              disabled={isLoading}
+              className="w-full text-xs p-1.5 bg-white border border-[#999999] hover:border-[#666666] focus:border-[#0078D7] outline-none rounded-none"
+            >
+              {LLM_PROVIDER_IDS.map(id => (
+                <option key={id} value={id}>{LLM_PROVIDERS[id].label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1 min-w-0">
+            <label className="block text-[11px] text-[#666666] mb-1">模型</label>
+            <input
+              list={`models-${activeProvider.id}`}
+              value={activeProviderSettings.model}
+              onChange={(e) => handleProviderFieldChange('model', e.target.value)}
+              disabled={isLoading}
+              placeholder="选择或输入模型 ID"
+              className="w-full text-xs p-1.5 bg-white border border-[#999999] hover:border-[#666666] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+            />
+            <datalist id={`models-${activeProvider.id}`}>
+              {activeProvider.models.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+        </div>
+
+        {activeProvider.id === 'openai_compatible' && (
+          <div>
+            <label className="block text-[11px] text-[#666666] mb-1">接口地址 (Base URL)</label>
+            <input
+              value={activeProviderSettings.baseUrl}
+              onChange={(e) => handleProviderFieldChange('baseUrl', e.target.value)}
+              disabled={isLoading}
+              placeholder={activeProvider.defaultBaseUrl}
+              className="w-full text-xs p-1.5 bg-white border border-[#999999] hover:border-[#666666] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+            />
+          </div>
+        )}
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-[11px] text-[#666666]">{activeProvider.label} API Key</label>
+            <label className="text-[11px] text-[#666666] flex items-center gap-1" title="同时发送的请求数，遇到限流可调低">
+              并发
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONCURRENCY}
+                value={llmSettings.concurrency}
+                onChange={(e) => handleConcurrencyChange(e.target.value)}
+                disabled={isLoading}
+                className="w-10 text-xs px-1 py-0.5 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+              />
+            </label>
+          </div>
+          <div className="flex gap-1">
+            <input 
+              type="password" 
+              value={activeProviderSettings.apiKey}
+              onChange={(e) => handleProviderFieldChange('apiKey', e.target.value)}
+              placeholder={activeProvider.keyPlaceholder}
+              className="flex-1 text-xs p-1.5 bg-white border border-[#999999] hover:border-[#666666] focus:border-[#0078D7] focus:ring-1 focus:ring-[#0078D7] outline-none transition-colors rounded-none placeholder-gray-400"
+            />
+            <button 
+              onClick={handleClearKey} 
+              title="清除 Key"
+              className="px-2 bg-[#F0F0F0] border border-[#CCCCCC] hover:bg-[#E0E0E0] text-[#666666]"
+            >
+              ✕
+            </button>
+          </div>
         </div>
       </div>
 
@@ -227,20 +484,110 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
         
         {activeTab === 'initial' && (
           <div className="flex flex-col h-full gap-3">
+            <div className="flex flex-col gap-1">
+              <div className="flex justify-between items-center">
+                <button
+                  onClick={() => setIsEditingExtractPrompt(!isEditingExtractPrompt)}
+                  className="text-[11px] text-[#666666] hover:text-[#333333] flex items-center gap-1"
+                >
+                  <span className="text-[10px]">{isEditingExtractPrompt ? '▼' : '▶'}</span>
+                  AI 提取提示词 (可编辑)
+                </button>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setIsEditingSchema(true)}
+                    disabled={isLoading}
+                    className="text-[10px] text-[#0078D7] hover:underline cursor-pointer disabled:text-[#999999] disabled:no-underline"
+                    title="让 AI 额外提取所在地、获赞数、主营线路等字段"
+                  >
+                    自定义字段{extractFields.length > 0 && ` (${extractFields.length})`}
+                  </button>
+                  <button
+                    onClick={() => setPromptLibraryKind('extract')}
+                    className="text-[10px] text-[#0078D7] hover:underline cursor-pointer"
+                    title="保存、切换和分享提示词模板"
+                  >
+                    模板库
+                  </button>
+                  {isEditingExtractPrompt && (
+                    <button
+                      onClick={() => setExtractPrompt(getDefaultPrompt('extract'))}
+                      className="text-[10px] text-[#0078D7] hover:underline cursor-pointer"
+                      title="恢复为项目默认模板 (未设置时为内置提示词)"
+                    >
+                      恢复默认
+                    </button>
+                  )}
+                </div>
+              </div>
+              {isEditingExtractPrompt && (
+                <textarea
+                  className="h-32 w-full p-2 text-xs bg-white border border-[#999999] hover:border-[#666666] focus:border-[#0078D7] outline-none font-mono resize-y rounded-none text-[#333333]"
+                  value={extractPrompt}
+                  onChange={(e) => setExtractPrompt(e.target.value)}
+                  placeholder="描述要从文本中提取哪些账号信息；JSON 输出格式会自动附加"
+                />
+              )}
+            </div>
+
             <textarea 
               className="flex-1 w-full p-2 text-xs bg-white border border-[#999999] hover:border-[#666666] focus:border-[#0078D7] outline-none font-mono resize-none rounded-none text-[#333333]"
               placeholder="请粘贴要提取的原始文本... (程序会自动分批处理长文本)"
               value={inputText}
               onChange={(e) => setInputText(e.target.value)}
             />
+
+            <div className="flex justify-between items-center text-[11px] text-[#666666]">
+              <label className="flex items-center gap-1" title="按当前模型保存，模型上下文较小时请调低">
+                每批约
+                <input
+                  type="number"
+                  min={MIN_CHUNK_TOKENS}
+                  step={500}
+                  value={chunkingOptions.maxTokens}
+                  onChange={(e) => handleChunkBudgetChange(e.target.value)}
+                  disabled={isLoading}
+                  className="w-16 text-xs px-1 py-0.5 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                />
+                重叠
+                <input
+                  type="number"
+                  min={0}
+                  step={50}
+                  value={llmSettings.overlapTokens}
+                  onChange={(e) => handleOverlapChange(e.target.value)}
+                  disabled={isLoading}
+                  className="w-12 text-xs px-1 py-0.5 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                />
+              </label>
+              <span>
+                {chunkPreview
+                  ? `预计 ${chunkPreview.batches} 批 (约 ${chunkPreview.tokens.toLocaleString()} tokens)`
+                  : '粘贴后显示分批预览'}
+              </span>
+            </div>
             
-            <button 
-              onClick={handleInitialCleaning}
-              disabled={isLoading}
-              className={`w-full py-1.5 text-white text-sm bg-[#0078D7] hover:bg-[#006CC1] active:bg-[#005A9E] disabled:bg-[#CCCCCC] disabled:text-[#666666] transition-colors border-none rounded-none shadow-none`}
-            >
-              {isLoading ? '处理中...' : '开始提取'}
-            </button>
+            <div className="flex gap-1">
+              <button 
+                onClick={handleInitialCleaning}
+                disabled={isLoading}
+                className={`flex-1 py-1.5 text-white text-sm bg-[#0078D7] hover:bg-[#006CC1] active:bg-[#005A9E] disabled:bg-[#CCCCCC] disabled:text-[#666666] transition-colors border-none rounded-none shadow-none`}
+              >
+                {isLoading ? '处理中...' : '开始提取'}
+              </button>
+              {isLoading && <StopButton onClick={handleStop} />}
+            </div>
+
+            {failedChunks.length > 0 && (
+              <button 
+                onClick={handleRetryFailedChunks}
+                disabled={isLoading}
+                title={failedChunks.map(c => `第 ${c.index + 1} 批: ${c.error}`).join('\n')}
+                className="w-full py-1.5 text-xs bg-white text-[#C42B1C] border border-[#C42B1C] hover:bg-[#FDF3F2] disabled:text-[#999999] disabled:border-[#CCCCCC] transition-colors rounded-none"
+              >
+                重试失败/取消的批次 ({failedChunks.length} / {failedChunksTotal})
+              </button>
+            )}
           </div>
         )}
 
@@ -253,6 +600,10 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
                    <span className="text-[#666666]">待检查</span>
                    <span className="font-semibold text-[#000000]">{unverifiedCount}</span>
                  </div>
+                 <div className="flex justify-between text-xs">
+                   <span className="text-[#666666]">待审核 (AI 建议移除)</span>
+                   <span className={`font-semibold ${flaggedCount > 0 ? 'text-[#CA5010]' : 'text-[#000000]'}`}>{flaggedCount}</span>
+                 </div>
                  <div className="flex justify-between text-xs">
                    <span className="text-[#666666]">已验证</span>
                    <span className="font-semibold text-[#000000]">{verifiedCount}</span>
@@ -260,16 +611,31 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
               </div>
             </div>
 
+            <PrefilterRulesEditor
+              rules={settings.prefilterRules}
+              onChange={(prefilterRules) => onSettingsChange({ ...settings, prefilterRules })}
+              candidateRows={unverifiedRows}
+            />
+
             <div className="flex-1 flex flex-col min-h-0">
                <div className="flex justify-between items-center mb-1">
                  <label className="text-[11px] text-[#666666]">AI 清洗规则 (可编辑)</label>
-                 <button 
-                   onClick={() => setFilterPrompt(SYSTEM_PROMPT_FILTER)}
-                   className="text-[10px] text-[#0078D7] hover:underline cursor-pointer"
-                   title="恢复默认的物流行业清洗规则"
-                 >
-                   恢复默认
-                 </button>
+                 <div className="flex gap-2">
+                   <button
+                     onClick={() => setPromptLibraryKind('filter')}
+                     className="text-[10px] text-[#0078D7] hover:underline cursor-pointer"
+                     title="保存、切换和分享提示词模板"
+                   >
+                     模板库
+                   </button>
+                   <button 
+                     onClick={() => setFilterPrompt(getDefaultPrompt('filter'))}
+                     className="text-[10px] text-[#0078D7] hover:underline cursor-pointer"
+                     title="恢复为项目默认模板 (未设置时为内置的物流行业清洗规则)"
+                   >
+                     恢复默认
+                   </button>
+                 </div>
                </div>
                <textarea 
                  className="flex-1 w-full p-2 text-xs bg-white border border-[#999999] hover:border-[#666666] focus:border-[#0078D7] outline-none font-mono resize-none rounded-none text-[#333333]"
@@ -279,13 +645,16 @@ export const CleaningPanel: React.FC<CleaningPanelProps> = ({ currentRows, onAdd
                />
             </div>
 
-            <button 
-              onClick={handleRelevanceCleaning}
-              disabled={isLoading || unverifiedCount === 0}
-              className={`w-full py-1.5 text-white text-sm bg-[#0078D7] hover:bg-[#006CC1] active:bg-[#005A9E] disabled:bg-[#CCCCCC] disabled:text-[#666666] transition-colors border-none rounded-none`}
-            >
-              {isLoading ? '处理中...' : '开始 AI 清洗'}
-            </button>
+            <div className="flex gap-1">
+              <button 
+                onClick={() => handleRelevanceCleaning()}
+                disabled={isLoading || unverifiedCount === 0}
+                className={`flex-1 py-1.5 text-white text-sm bg-[#0078D7] hover:bg-[#006CC1] active:bg-[#005A9E] disabled:bg-[#CCCCCC] disabled:text-[#666666] transition-colors border-none rounded-none`}
+              >
+                {isLoading ? '处理中...' : '开始 AI 清洗'}
+              </button>
+              {isLoading && <StopButton onClick={handleStop} />}
+            </div>
           </div>
         )}
 
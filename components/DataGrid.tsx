@@ -1,12 +1,32 @@
 import React, { useRef, useState, useEffect, useMemo } from 'react';
-import { read, utils, writeFile } from 'xlsx';
-import { CleanerRow } from '../types';
+import { CheckStatus, CleanerRow, ExportFormat, ExportProfile, GridView, ImportMergeOptions, ImportSummary, TextConditionOperator, AI_VERDICT_HEADERS, CHECK_STATUS_LABELS } from '../types';
+import { sortRows, isNumericColumn } from '../services/rowSort';
+import { useGridFilters } from '../hooks/useGridFilters';
+import { useGridSort } from '../hooks/useGridSort';
+import { useGridSearch } from '../hooks/useGridSearch';
+import { ImportDialog } from './ImportDialog';
+import { DedupeDialog } from './DedupeDialog';
+import { ClusterResolution } from '../services/rowDedupe';
+import { ExportProfileDialog } from './ExportProfileDialog';
+import { EXPORT_FORMAT_LABELS, createExportProfile, exportRows } from '../services/rowExport';
+import { ImportSource, ACCEPTED_EXTENSIONS, getFileExtension, readImportSources } from '../services/spreadsheetImport';
 
 interface DataGridProps {
   data: CleanerRow[];
   headers: string[];
-  onImportData: (data: CleanerRow[], headers: string[]) => void;
+  onImportData: (data: CleanerRow[], options: ImportMergeOptions) => ImportSummary;
   onCellEdit: (rowId: number | string, column: string, value: any) => void;
+  onResolveFlagged: (ids: (number | string)[], accept: boolean) => void;
+  views: GridView[];
+  onViewsChange: (views: GridView[]) => void;
+  exportProfiles: ExportProfile[];
+  onExportProfilesChange: (profiles: ExportProfile[]) => void;
+  onDeleteRows: (ids: (number | string)[]) => void;
+  onUpdateStatus: (ids: (number | string)[], status: CheckStatus) => void;
+  onSetColumnValue: (ids: (number | string)[], column: string, value: string) => void;
+  onSendToRelevance: (ids: (number | string)[]) => void;
+  onMergeDuplicates: (resolutions: ClusterResolution[]) => void;
+  onParseContacts: (ids: (number | string)[]) => void;
 }
 
 // Icon for the filter button
@@ -20,28 +40,72 @@ const FilterIcon = ({ active }: { active: boolean }) => (
   </svg>
 );
 
-export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData, onCellEdit }) => {
+// Windowed rendering: only the rows inside the viewport (plus a margin) are mounted.
+// Every row is forced to ROW_HEIGHT so scroll offsets map directly to row indices.
+const ROW_HEIGHT = 28;
+const OVERSCAN_ROWS = 12;
+// Columns like 用户名 can have tens of thousands of distinct values; the filter menu lists at most this many
+const MAX_FILTER_MENU_VALUES = 500;
+
+const CONDITION_OPERATOR_LABELS: Record<TextConditionOperator, string> = {
+  contains: '包含',
+  not_contains: '不包含',
+  regex: '正则'
+};
+
+export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData, onCellEdit, onResolveFlagged, views, onViewsChange, exportProfiles, onExportProfilesChange, onDeleteRows, onUpdateStatus, onSetColumnValue, onSendToRelevance, onMergeDuplicates, onParseContacts }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   
+  // -- Import Dialog State --
+  // The parsed sheet waits here while the user maps its columns
+  const [pendingImport, setPendingImport] = useState<{ sources: ImportSource[] } | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Outcome of the last import, shown until dismissed
+  const [importReport, setImportReport] = useState<(ImportSummary & { label: string }) | null>(null);
+
+  const [isDedupeOpen, setIsDedupeOpen] = useState(false);
+
   // -- Export Menu State --
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isExportProfilesOpen, setIsExportProfilesOpen] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
 
-  // -- Filter System State --
-  // openFilterHeader: Which column's menu is currently open (null = none)
-  const [openFilterHeader, setOpenFilterHeader] = useState<string | null>(null);
-  
-  // activeFilters: Map of 'Column Name' -> Set of allowed values (Regular checkboxes)
-  const [activeFilters, setActiveFilters] = useState<Record<string, Set<string>>>({});
-
-  // uniqueColumns: Set of columns that are currently in "Show Unique / Deduplicate" mode.
-  // Logic: A row is shown only if its value in these columns has NOT been seen before (Strict Cleaning).
-  const [uniqueColumns, setUniqueColumns] = useState<Set<string>>(new Set());
-  
-  // tempFilterSelection: Used while the menu is open (before clicking OK)
-  const [tempFilterSelection, setTempFilterSelection] = useState<Set<string>>(new Set());
-
-  const filterMenuRef = useRef<HTMLDivElement>(null);
+  // -- Filters, Sort, Search --
+  const {
+    openFilterHeader, setOpenFilterHeader, activeFilters, conditions, uniqueColumns, tempFilterSelection,
+    filterSearch, setFilterSearch, conditionDraft, setConditionDraft, conditionError, filterMenuRef,
+    getUniqueStats, handleFilterClick, toggleFilterValue, toggleSelectAll, applyFilter, handleToggleUniqueMode,
+    getViewFilters, restoreFilters, activeFilterCount, filterRows, clearFilters
+  } = useGridFilters(data);
+  const { sortKeys, setSortKeys, handleSortClick } = useGridSort();
+
+  // -- Saved Views Menu State --
+  const [isViewMenuOpen, setIsViewMenuOpen] = useState(false);
+  const [newViewName, setNewViewName] = useState('');
+  const viewMenuRef = useRef<HTMLDivElement>(null);
+
+  // -- Row Selection State --
+  // selectionAnchorRef: index (in the displayed rows) of the last clicked checkbox, the start of a Shift-click range
+  const [selectedIds, setSelectedIds] = useState<Set<number | string>>(new Set());
+  const selectionAnchorRef = useRef<number | null>(null);
+  const [isConfirmingSelectionDelete, setIsConfirmingSelectionDelete] = useState(false);
+  const [bulkColumn, setBulkColumn] = useState('');
+  const [bulkValue, setBulkValue] = useState('');
+  const [hasCopiedSelection, setHasCopiedSelection] = useState(false);
+
+  // -- Virtualization State --
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+
+  // -- Review Mode: only rows the AI proposed to remove, with accept/reject actions --
+  const [isReviewMode, setIsReviewMode] = useState(false);
+  const flaggedCount = useMemo(() => data.filter(r => r.checkStatus === 'flagged').length, [data]);
+
+  // Leave review mode automatically once the queue is empty
+  useEffect(() => {
+    if (isReviewMode && flaggedCount === 0) setIsReviewMode(false);
+  }, [isReviewMode, flaggedCount]);
 
   // Close menus when clicking outside
   useEffect(() => {
@@ -49,9 +113,8 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
       if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
         setIsExportMenuOpen(false);
       }
-      if (filterMenuRef.current && !filterMenuRef.current.contains(event.target as Node)) {
-        // If clicking outside filter menu, close it without applying
-        setOpenFilterHeader(null);
+      if (viewMenuRef.current && !viewMenuRef.current.contains(event.target as Node)) {
+        setIsViewMenuOpen(false);
       }
     }
     document.addEventListener("mousedown", handleClickOutside);
@@ -61,283 +124,285 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
   // -- Reset filters when data is cleared --
   useEffect(() => {
     if (data.length === 0) {
-      setActiveFilters({});
-      setUniqueColumns(new Set());
+      clearFilters();
+      setSortKeys([]);
+      setSelectedIds(new Set());
     }
   }, [data]);
 
-  // -- Filter Logic Helpers --
-
-  // 1. Calculate Unique Values and Counts for a specific column
-  const getUniqueStats = (column: string) => {
-    const stats = new Map<string, number>();
-    
-    data.forEach(row => {
-      let val = row[column];
-      
-      // Normalize value: Trim whitespace to avoid "123" and "123 " being separate
-      if (val === null || val === undefined) {
-        val = '(空白)';
-      } else {
-        val = String(val).trim();
-        if (val === '') val = '(空白)';
-      }
-      
-      stats.set(val, (stats.get(val) || 0) + 1);
-    });
-
-    return Array.from(stats.entries()).sort((a, b) => {
-       // 1. Sort by Count Descending (High frequency first)
-       const countDiff = b[1] - a[1];
-       if (countDiff !== 0) return countDiff;
-
-       // 2. Tie-break: Sort by Value Ascending
-       if (a[0] === '(空白)') return 1; // Put blanks at the bottom if counts are equal
-       if (b[0] === '(空白)') return -1;
-       return a[0].localeCompare(b[0]);
-    });
+  // Saved views: snapshot the current filters and sort under a name (stored with the project)
+  const handleSaveView = () => {
+    const name = newViewName.trim();
+    if (!name) return;
+    const view: GridView = {
+      id: `v_${Date.now().toString(36)}`,
+      name,
+      ...getViewFilters(),
+      sortKeys: [...sortKeys]
+    };
+    // Saving under an existing name replaces that view
+    onViewsChange([...views.filter(v => v.name !== name), view]);
+    setNewViewName('');
   };
 
-  // 2. Open Filter Menu
-  const handleFilterClick = (header: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    
-    // If opening a new menu, initialize temp selection
-    if (openFilterHeader !== header) {
-      const stats = getUniqueStats(header);
-      const allValues = stats.map(s => s[0]);
-      
-      // If a filter already exists for this column, load it. Otherwise, select all.
-      if (activeFilters[header]) {
-        setTempFilterSelection(new Set(activeFilters[header]));
-      } else {
-        setTempFilterSelection(new Set(allValues));
-      }
-      setOpenFilterHeader(header);
-    } else {
-      setOpenFilterHeader(null);
-    }
+  // Passing null clears every filter and the sort
+  const applyView = (view: GridView | null) => {
+    restoreFilters(view);
+    setSortKeys(view ? [...view.sortKeys] : []);
+    setIsViewMenuOpen(false);
   };
 
-  // 3. Toggle a specific value in the temporary selection
-  const toggleFilterValue = (val: string) => {
-    const newSet = new Set(tempFilterSelection);
-    if (newSet.has(val)) {
-      newSet.delete(val);
-    } else {
-      newSet.add(val);
+  // -- Derived Data --
+  // While a cell is being edited the rows keep the order and membership they had when editing started
+  // (with their current values), so typing into a sorted or filtered column doesn't move or hide the row
+  // under the cursor. Rows deleted meanwhile drop out; the live order returns when the cell loses focus
+  // or its row leaves the rendered window (unmounting the input fires no blur).
+  const [frozenOrder, setFrozenOrder] = useState<{ editingRowId: number | string; rowIds: (number | string)[] } | null>(null);
+
+  const filteredData = useMemo(() => {
+    if (!data || data.length === 0) return [];
+
+    if (frozenOrder) {
+      const byId = new Map(data.map(row => [row._internal_id!, row]));
+      return frozenOrder.rowIds.map(id => byId.get(id)).filter((row): row is CleanerRow => !!row);
     }
-    setTempFilterSelection(newSet);
-  };
 
-  // 4. Toggle Select All
-  const toggleSelectAll = (allValues: string[]) => {
-    if (tempFilterSelection.size === allValues.length) {
-      setTempFilterSelection(new Set());
-    } else {
-      setTempFilterSelection(new Set(allValues));
+    let result = filterRows(data);
+
+    // Review mode narrows the view to the flagged queue (column filters still apply)
+    if (isReviewMode) {
+      result = result.filter(row => row.checkStatus === 'flagged');
     }
+
+    // Sort last, so "show unique" still keeps the first occurrence in table order
+    return sortRows(result, sortKeys);
+  }, [data, frozenOrder, filterRows, isReviewMode, sortKeys]);
+
+  const freezeRowOrder = (editingRowId: number | string) =>
+    setFrozenOrder({ editingRowId, rowIds: filteredData.map(row => row._internal_id!) });
+  const unfreezeRowOrder = () => setFrozenOrder(null);
+
+  // -- Virtualization --
+  // Track the viewport height so the rendered window follows window/panel resizes
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const visibleStart = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const visibleEnd = Math.min(filteredData.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleRows = filteredData.slice(visibleStart, visibleEnd);
+
+  useEffect(() => {
+    if (frozenOrder && !visibleRows.some(row => row._internal_id === frozenOrder.editingRowId)) unfreezeRowOrder();
+  }, [frozenOrder, visibleRows]);
+
+  // -- Global Search --
+  const {
+    searchQuery, setSearchQuery, searchOptions, setSearchOptions, deferredSearchQuery, currentMatchIndex,
+    isConfirmingSearchDelete, setIsConfirmingSearchDelete, searchInputRef, searchMatches, matchedRows, goToMatch, getSearchHighlight
+  } = useGridSearch(filteredData, headers, rowIndex => {
+    // Scroll the match's row into the middle of the viewport
+    const container = scrollContainerRef.current;
+    if (container) container.scrollTop = Math.max(0, rowIndex * ROW_HEIGHT - viewportHeight / 2);
+  });
+
+  // -- Row Selection --
+  // Only ids that still exist count; rows deleted elsewhere (undo, AI review) drop out of the selection
+  const selectedRows = useMemo(() => data.filter(row => selectedIds.has(row._internal_id!)), [data, selectedIds]);
+  const selectedVisibleCount = useMemo(
+    () => filteredData.reduce((count, row) => count + (selectedIds.has(row._internal_id!) ? 1 : 0), 0),
+    [filteredData, selectedIds]
+  );
+  const isAllVisibleSelected = filteredData.length > 0 && selectedVisibleCount === filteredData.length;
+  const editableHeaders = headers.filter(h => h !== '状态' && !AI_VERDICT_HEADERS.includes(h));
+
+  // Auto-cancel delete confirmation after 3 seconds
+  useEffect(() => {
+    if (isConfirmingSelectionDelete) {
+      const timer = setTimeout(() => setIsConfirmingSelectionDelete(false), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [isConfirmingSelectionDelete]);
+
+  // Click toggles one row; Shift+click applies the clicked row's new state to the whole range from the anchor
+  const toggleRowSelection = (row: CleanerRow, index: number, isRange: boolean) => {
+    const id = row._internal_id!;
+    const select = !selectedIds.has(id);
+    const next = new Set(selectedIds);
+    const anchor = selectionAnchorRef.current;
+    const rangeRows = isRange && anchor !== null
+      ? filteredData.slice(Math.min(anchor, index), Math.max(anchor, index) + 1)
+      : [row];
+    rangeRows.forEach(r => (select ? next.add(r._internal_id!) : next.delete(r._internal_id!)));
+    selectionAnchorRef.current = index;
+    setSelectedIds(next);
+  };
+
+  // Header checkbox selects/deselects the rows currently shown, leaving hidden selected rows alone
+  const toggleSelectAllVisible = () => {
+    const next = new Set(selectedIds);
+    filteredData.forEach(row => (isAllVisibleSelected ? next.delete(row._internal_id!) : next.add(row._internal_id!)));
+    setSelectedIds(next);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
   };
 
-  // 5. Apply Filter (Click OK)
-  const applyFilter = () => {
-    if (!openFilterHeader) return;
-    
-    const stats = getUniqueStats(openFilterHeader);
-    const allValues = stats.map(s => s[0]);
-
-    const newFilters = { ...activeFilters };
-    
-    // If all values are selected, remove the explicit value filter for this column
-    if (tempFilterSelection.size === allValues.length) {
-      delete newFilters[openFilterHeader];
-    } else {
-      newFilters[openFilterHeader] = tempFilterSelection;
+  const selectedIdList = () => selectedRows.map(r => r._internal_id!);
+
+  const handleDeleteSelected = () => {
+    if (!isConfirmingSelectionDelete) {
+      setIsConfirmingSelectionDelete(true);
+      return;
     }
-    
-    setActiveFilters(newFilters);
-    // Note: hitting OK confirms the value checkboxes. It does NOT affect the Unique Toggle (which applies instantly/independently).
-    setOpenFilterHeader(null);
+    setIsConfirmingSelectionDelete(false);
+    onDeleteRows(selectedIdList());
+    clearSelection();
   };
 
-  // 6. Handle "Deduplicate" / "Show Unique" Button
-  const handleToggleUniqueMode = (header: string) => {
-    const newUniqueSet = new Set(uniqueColumns);
-    if (newUniqueSet.has(header)) {
-      newUniqueSet.delete(header);
-    } else {
-      newUniqueSet.add(header);
-      // Optional: When enabling deduplication, we usually want to clear specific value filters 
-      // to ensure the user sees the unique list properly.
-      const newFilters = { ...activeFilters };
-      delete newFilters[header];
-      setActiveFilters(newFilters);
+  // Tab-separated with a header line, so the rows paste straight into Excel
+  const handleCopySelected = async () => {
+    const toCell = (row: CleanerRow, h: string) => {
+      const val = h === '状态' ? CHECK_STATUS_LABELS[row.checkStatus || 'unverified'] : row[h];
+      return String(val ?? "").replace(/[\t\r\n]+/g, ' ');
+    };
+    const tsv = [headers.join('\t'), ...selectedRows.map(row => headers.map(h => toCell(row, h)).join('\t'))].join('\n');
+    try {
+      await navigator.clipboard.writeText(tsv);
+      setHasCopiedSelection(true);
+      setTimeout(() => setHasCopiedSelection(false), 2000);
+    } catch (e) {
+      console.error(e);
+      alert("复制失败，请检查剪贴板权限");
     }
-    setUniqueColumns(newUniqueSet);
-    // Keep menu open to let user see status change, or close it? 
-    // Usually close is better feedback.
-    setOpenFilterHeader(null); 
   };
 
-  // -- Derived Data --
-  const filteredData = useMemo(() => {
-    if (!data || data.length === 0) return [];
+  const handleSetColumnValue = () => {
+    const column = bulkColumn || editableHeaders[0];
+    if (!column) return;
+    onSetColumnValue(selectedIdList(), column, bulkValue);
+    setBulkValue('');
+  };
 
-    // 1. Apply Standard Value Filters (Checkboxes)
-    let result = data.filter(row => {
-      return Object.keys(activeFilters).every(colKey => {
-        const allowedValues = activeFilters[colKey];
-        if (!allowedValues) return true;
-
-        let cellValue = row[colKey];
-        if (cellValue === null || cellValue === undefined) {
-          cellValue = '(空白)';
-        } else {
-          cellValue = String(cellValue).trim();
-          if (cellValue === '') cellValue = '(空白)';
-        }
-        
-        return allowedValues.has(cellValue);
-      });
-    });
-
-    // 2. Apply Deduplication (Strict Unique Filter)
-    // Logic: If multiple columns are selected (e.g. ID and Phone), 
-    // a row is hidden if its ID was seen OR its Phone was seen.
-    if (uniqueColumns.size > 0) {
-      const seenMaps: Record<string, Set<string>> = {};
-      
-      // Initialize sets for each active unique column
-      uniqueColumns.forEach(col => {
-        seenMaps[col] = new Set();
-      });
-
-      result = result.filter(row => {
-        let isDuplicate = false;
-
-        // Check against all active unique constraints
-        for (const col of uniqueColumns) {
-          let val = row[col];
-          // Normalize
-          if (val === null || val === undefined) {
-            val = '(空白)';
-          } else {
-            val = String(val).trim();
-            if (val === '') val = '(空白)';
-          }
-
-          if (seenMaps[col].has(val)) {
-            isDuplicate = true;
-          } else {
-            // Important: We only add to 'seen' if we are keeping this row?
-            // Actually, for "Strict Unique", yes. But wait.
-            // If row has (ID=1, Phone=A) -> Keep. SeenID={1}, SeenPhone={A}
-            // If next row has (ID=1, Phone=B) -> ID matches. Duplicate. Drop.
-            // If next row has (ID=2, Phone=A) -> Phone matches. Duplicate. Drop.
-            // This ensures the result has NO duplicate IDs and NO duplicate Phones.
-          }
-        }
-
-        if (isDuplicate) {
-          return false;
-        }
-
-        // If not duplicate, add values to seen and keep row
-        for (const col of uniqueColumns) {
-          let val = row[col];
-          if (val === null || val === undefined) {
-            val = '(空白)';
-          } else {
-            val = String(val).trim();
-            if (val === '') val = '(空白)';
-          }
-          seenMaps[col].add(val);
-        }
-        return true;
-      });
+  const handleDeleteMatchedRows = () => {
+    if (!isConfirmingSearchDelete) {
+      setIsConfirmingSearchDelete(true);
+      return;
     }
+    setIsConfirmingSearchDelete(false);
+    onDeleteRows(matchedRows.map(r => r._internal_id!));
+  };
 
-    return result;
-  }, [data, activeFilters, uniqueColumns]);
+  // Bulk review actions apply to the flagged rows currently visible
+  const handleResolveVisible = (accept: boolean) => {
+    const ids = filteredData.filter(r => r.checkStatus === 'flagged').map(r => r._internal_id!);
+    if (ids.length > 0) onResolveFlagged(ids, accept);
+  };
 
   // -- Standard Handlers --
 
-  const handleExport = (format: 'xlsx' | 'csv') => {
+  const handleExport = (profile: ExportProfile, rows: CleanerRow[] = filteredData) => {
     setIsExportMenuOpen(false);
-    if (filteredData.length === 0) {
+    if (rows.length === 0) {
       alert("表格为空或筛选结果为空");
       return;
     }
-    const exportData = filteredData.map(row => {
-      const rowData: Record<string, any> = {};
-      headers.forEach(h => { 
-        if (h === '状态') {
-           rowData[h] = row.checkStatus === 'verified' ? '已验证' : '待检查';
-        } else {
-           rowData[h] = row[h]; 
-        }
-      });
-      return rowData;
-    });
-    const ws = utils.json_to_sheet(exportData, { header: headers });
-    const wb = utils.book_new();
-    utils.book_append_sheet(wb, ws, "CleanedData");
-    writeFile(wb, `douyin_data_export.${format === 'csv' ? 'csv' : 'xlsx'}`);
+    exportRows(rows, profile);
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const fileExt = file.name.split('.').pop()?.toLowerCase();
-    const reader = new FileReader();
-
-    const processData = (arrayBuffer: ArrayBuffer | string, isBinary: boolean) => {
-      try {
-        const workbook = read(arrayBuffer, { type: isBinary ? 'array' : 'string', cellDates: true, cellNF: true, cellText: false });
-        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-        const jsonData = utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: "", raw: false });
-        processRawGrid(jsonData);
-      } catch (error) {
-        console.error(error);
-        alert("文件解析失败");
+  // Quick export: every visible column as it is
+  const handleQuickExport = (format: ExportFormat, rows?: CleanerRow[]) =>
+    handleExport(createExportProfile('', headers, format), rows);
+
+  // Every sheet of every file becomes a source; the dialog lets the user pick which ones to import
+  const openImportDialog = async (files: File[]) => {
+    const accepted = files.filter(f => ACCEPTED_EXTENSIONS.includes(getFileExtension(f.name)));
+    if (accepted.length === 0) return;
+    try {
+      const sources = (await Promise.all(accepted.map(readImportSources))).flat();
+      if (sources.length === 0) {
+        alert("文件中没有数据");
+        return;
       }
-    };
-
-    if (fileExt === 'csv') {
-      reader.onload = (e) => processData(e.target?.result as string, false);
-      reader.readAsText(file);
-    } else {
-      reader.onload = (e) => processData(e.target?.result as ArrayBuffer, true);
-      reader.readAsArrayBuffer(file);
+      setPendingImport({ sources });
+    } catch (error) {
+      console.error(error);
+      alert("文件解析失败");
     }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    openImportDialog(Array.from(e.target.files || []));
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const processRawGrid = (rows: any[][]) => {
-    if (!rows || rows.length === 0) return;
-    const rawHeaders = rows[0].map(h => String(h || "").trim());
-    const filteredRawHeaders = rawHeaders.filter(h => h !== '状态');
-    const parsedRows: CleanerRow[] = [];
-    for (let i = 1; i < rows.length; i++) {
-      const rowArr = rows[i];
-      if (!rowArr || rowArr.every(c => c === "" || c === null || c === undefined)) continue;
-      const rowObj: CleanerRow = { 
-        _internal_id: Date.now() + i + Math.random(),
-        checkStatus: 'unverified',
-        用户名: '', 抖音号: '', 粉丝数: '', 简介: '', 联系方式: '' 
-      }; 
-      rawHeaders.forEach((header, colIndex) => { 
-        if (header !== '状态') rowObj[header] = rowArr[colIndex]; 
-      });
-      parsedRows.push(rowObj);
-    }
-    setActiveFilters({});
-    setUniqueColumns(new Set()); // Reset unique filter on import
-    onImportData(parsedRows, filteredRawHeaders);
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Leaving into a child element still counts as over the grid
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    openImportDialog(Array.from(e.dataTransfer.files));
+  };
+
+  const handleConfirmImport = (parsedRows: CleanerRow[], options: ImportMergeOptions, label: string) => {
+    setPendingImport(null);
+    clearFilters(); // Reset filters, including "show unique", on import
+    clearSelection();
+    setImportReport({ ...onImportData(parsedRows, options), label });
   };
 
   return (
-    <div className="flex flex-col h-full bg-white">
+    <div
+      className="relative flex flex-col h-full bg-white"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-40 bg-[#0078D7]/10 border-2 border-dashed border-[#0078D7] flex items-center justify-center pointer-events-none">
+          <span className="px-4 py-2 bg-white border border-[#0078D7] text-sm text-[#0078D7] shadow">松开以导入 CSV / Excel 文件 (可多个)</span>
+        </div>
+      )}
+      {isExportProfilesOpen && (
+        <ExportProfileDialog
+          profiles={exportProfiles}
+          headers={headers}
+          onSave={onExportProfilesChange}
+          onExport={(profile) => {
+            setIsExportProfilesOpen(false);
+            handleExport(profile);
+          }}
+          onClose={() => setIsExportProfilesOpen(false)}
+        />
+      )}
+      {isDedupeOpen && (
+        <DedupeDialog rows={data} onApply={onMergeDuplicates} onClose={() => setIsDedupeOpen(false)} />
+      )}
+      {pendingImport && (
+        <ImportDialog
+          sources={pendingImport.sources}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
       {/* Toolbar */}
       <div className="px-2 py-1 bg-[#F3F3F3] border-b border-[#E5E5E5] flex justify-between items-center h-[36px]">
         <div className="flex items-center gap-2">
@@ -349,10 +414,113 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
                </span>
              )}
            </span>
+           <input
+             ref={searchInputRef}
+             value={searchQuery}
+             onChange={(e) => setSearchQuery(e.target.value)}
+             onKeyDown={(e) => {
+               if (e.key === 'Enter') goToMatch(currentMatchIndex + (e.shiftKey ? -1 : 1));
+               if (e.key === 'Escape') setSearchQuery('');
+             }}
+             placeholder="搜索全部列 (Ctrl+F)"
+             className="w-48 text-xs px-1 py-0.5 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+           />
+           <label className="flex items-center gap-1 text-xs text-[#333333] select-none cursor-pointer" title="用拼音或首字母匹配中文，如 wuliu / wl 匹配 物流">
+             <input
+               type="checkbox"
+               checked={searchOptions.pinyin}
+               onChange={(e) => setSearchOptions({ ...searchOptions, pinyin: e.target.checked })}
+               className="accent-[#0078D7] w-3 h-3"
+             />
+             拼音
+           </label>
+           <label className="flex items-center gap-1 text-xs text-[#333333] select-none cursor-pointer" title="字符按顺序出现即可匹配，中间可以间隔其他字符">
+             <input
+               type="checkbox"
+               checked={searchOptions.fuzzy}
+               onChange={(e) => setSearchOptions({ ...searchOptions, fuzzy: e.target.checked })}
+               className="accent-[#0078D7] w-3 h-3"
+             />
+             模糊
+           </label>
         </div>
         
         <div className="flex items-center gap-1">
-          <input type="file" accept=".csv, .xlsx, .xls" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+          {(flaggedCount > 0 || isReviewMode) && (
+            <button 
+              onClick={() => setIsReviewMode(!isReviewMode)}
+              className={`px-3 py-1 text-xs transition-colors border rounded-none ${isReviewMode ? 'bg-[#CA5010] text-white border-[#CA5010]' : 'text-[#CA5010] border-[#CA5010] hover:bg-[#FDF0E8]'}`}
+              title="逐条或批量确认 AI 建议移除的账号"
+            >
+              {isReviewMode ? '退出审核' : `审核 AI 移除 (${flaggedCount})`}
+            </button>
+          )}
+          <div className="relative" ref={viewMenuRef}>
+            <button
+              onClick={() => setIsViewMenuOpen(!isViewMenuOpen)}
+              className="px-3 py-1 text-xs text-[#333333] hover:bg-[#D9D9D9] transition-colors border border-transparent hover:border-[#CCCCCC] rounded-none"
+              title="保存或切换筛选视图"
+            >
+              视图{activeFilterCount > 0 && <span className="ml-1 text-[#0078D7]">({activeFilterCount} 项筛选)</span>}
+            </button>
+            {isViewMenuOpen && (
+              <div className="absolute right-0 top-full mt-0 w-64 bg-white border border-[#CCCCCC] shadow-md z-50 text-xs">
+                <div className="max-h-60 overflow-y-auto scrollbar-win10 py-1">
+                  <button onClick={() => applyView(null)} className="block w-full text-left px-3 py-2 hover:bg-[#F0F0F0] text-[#333333]">
+                    (全部数据，清除筛选与排序)
+                  </button>
+                  {views.map(view => (
+                    <div key={view.id} className="flex items-center hover:bg-[#F0F0F0]">
+                      <button onClick={() => applyView(view)} className="flex-1 text-left px-3 py-2 text-[#333333] truncate" title={view.name}>
+                        {view.name}
+                      </button>
+                      <button
+                        onClick={() => onViewsChange(views.filter(v => v.id !== view.id))}
+                        className="px-2 text-[#666666] hover:text-red-600"
+                        title="删除视图"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-1 p-2 border-t border-[#E5E5E5] bg-[#F9F9F9]">
+                  <input
+                    value={newViewName}
+                    onChange={(e) => setNewViewName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSaveView(); }}
+                    placeholder="视图名称，如：万粉以上物流号"
+                    className="flex-1 min-w-0 text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+                  />
+                  <button
+                    onClick={handleSaveView}
+                    disabled={!newViewName.trim()}
+                    className="px-2 py-1 text-xs text-white bg-[#0078D7] hover:bg-[#006CC1] disabled:bg-[#CCCCCC] rounded-none"
+                    title="保存当前的筛选和排序"
+                  >
+                    保存
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => setIsDedupeOpen(true)}
+            disabled={data.length === 0}
+            className="px-3 py-1 text-xs text-[#333333] hover:bg-[#D9D9D9] disabled:text-[#AAAAAA] disabled:hover:bg-transparent transition-colors border border-transparent hover:border-[#CCCCCC] rounded-none"
+            title="查找重复的账号，保留一行并永久删除其余行"
+          >
+            去重工具
+          </button>
+          <button
+            onClick={() => onParseContacts(filteredData.map(r => r._internal_id!))}
+            disabled={filteredData.length === 0}
+            className="px-3 py-1 text-xs text-[#333333] hover:bg-[#D9D9D9] disabled:text-[#AAAAAA] disabled:hover:bg-transparent transition-colors border border-transparent hover:border-[#CCCCCC] rounded-none"
+            title="从联系方式和简介中提取手机、座机、微信、QQ、邮箱 (当前筛选结果，本地解析)"
+          >
+            解析联系方式
+          </button>
+          <input type="file" accept=".csv, .xlsx, .xls" multiple ref={fileInputRef} onChange={handleFileChange} className="hidden" />
           <button 
             onClick={() => fileInputRef.current?.click()}
             className="px-3 py-1 text-xs text-[#333333] hover:bg-[#D9D9D9] transition-colors border border-transparent hover:border-[#CCCCCC] rounded-none"
@@ -368,30 +536,225 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
               导出
             </button>
             {isExportMenuOpen && (
-              <div className="absolute right-0 top-full mt-0 w-32 bg-white border border-[#CCCCCC] shadow-md z-50 py-1 text-xs">
-                <button onClick={() => handleExport('xlsx')} className="block w-full text-left px-3 py-2 hover:bg-[#F0F0F0] text-[#333333]">Excel (.xlsx)</button>
-                <button onClick={() => handleExport('csv')} className="block w-full text-left px-3 py-2 hover:bg-[#F0F0F0] text-[#333333]">CSV (.csv)</button>
+              <div className="absolute right-0 top-full mt-0 w-48 bg-white border border-[#CCCCCC] shadow-md z-50 py-1 text-xs">
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleQuickExport(format)}
+                    className="block w-full text-left px-3 py-2 hover:bg-[#F0F0F0] text-[#333333]"
+                    title={format === 'csv_bom' ? '用 Excel 直接打开不会乱码' : undefined}
+                  >
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </button>
+                ))}
+                {exportProfiles.length > 0 && (
+                  <>
+                    <div className="my-1 border-t border-[#E5E5E5]"></div>
+                    <div className="px-3 py-1 text-[#888888]">按导出方案</div>
+                    {exportProfiles.map(profile => (
+                      <button
+                        key={profile.id}
+                        onClick={() => handleExport(profile)}
+                        className="block w-full text-left px-3 py-2 hover:bg-[#F0F0F0] text-[#333333] truncate"
+                        title={`${profile.name} (${EXPORT_FORMAT_LABELS[profile.format]})`}
+                      >
+                        {profile.name}
+                      </button>
+                    ))}
+                  </>
+                )}
+                <div className="my-1 border-t border-[#E5E5E5]"></div>
+                <button
+                  onClick={() => {
+                    setIsExportMenuOpen(false);
+                    setIsExportProfilesOpen(true);
+                  }}
+                  className="block w-full text-left px-3 py-2 hover:bg-[#F0F0F0] text-[#333333]"
+                >
+                  管理导出方案...
+                </button>
               </div>
             )}
           </div>
         </div>
       </div>
 
+      {/* Review Bar */}
+      {isReviewMode && (
+        <div className="px-2 py-1 bg-[#FDF0E8] border-b border-[#F2C9AE] flex items-center justify-between text-xs text-[#333333]">
+          <span>审核模式: AI 建议移除 {flaggedCount} 条，确认后才会删除。悬停 AI 列可查看理由。</span>
+          <div className="flex items-center gap-1">
+            <button 
+              onClick={() => handleResolveVisible(true)}
+              className="px-3 py-1 text-white bg-[#C42B1C] hover:bg-[#A52A1D] transition-colors rounded-none"
+            >
+              全部确认移除 ({filteredData.length})
+            </button>
+            <button 
+              onClick={() => handleResolveVisible(false)}
+              className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors rounded-none"
+            >
+              全部保留
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Import Report */}
+      {importReport && (
+        <div className="px-2 py-1 bg-[#DFF6DD] border-b border-[#A8DBA5] flex items-center justify-between text-xs text-[#333333]">
+          <span>
+            导入完成 ({importReport.label}): 新增 {importReport.added} 行，合并 {importReport.merged} 行，跳过 {importReport.skipped} 个重复
+          </span>
+          <button onClick={() => setImportReport(null)} className="px-2 text-[#666666] hover:text-[#333333]" title="关闭">✕</button>
+        </div>
+      )}
+
+      {/* Selection Bar: bulk actions on the checked rows */}
+      {selectedRows.length > 0 && (
+        <div className="px-2 py-1 bg-[#E5F1FB] border-b border-[#B3D7F3] flex items-center justify-between text-xs text-[#333333] gap-2">
+          <div className="flex items-center gap-1">
+            <span>已选择 {selectedRows.length} 行</span>
+            <button onClick={clearSelection} className="px-2 text-[#0078D7] hover:underline">取消选择</button>
+          </div>
+          <div className="flex items-center gap-1 flex-wrap justify-end">
+            <button
+              onClick={() => onUpdateStatus(selectedIdList(), 'verified')}
+              className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors rounded-none"
+            >
+              标记已验证
+            </button>
+            <button
+              onClick={() => onUpdateStatus(selectedIdList(), 'unverified')}
+              className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors rounded-none"
+            >
+              标记待检查
+            </button>
+            <button
+              onClick={() => onSendToRelevance(selectedIdList())}
+              className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors rounded-none"
+              title="用左侧的清洗规则重新检查选中的行"
+            >
+              AI 清洗
+            </button>
+            <button
+              onClick={handleCopySelected}
+              className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors rounded-none"
+            >
+              {hasCopiedSelection ? '已复制' : '复制 (TSV)'}
+            </button>
+            <select
+              value={bulkColumn || editableHeaders[0]}
+              onChange={(e) => setBulkColumn(e.target.value)}
+              className="text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+            >
+              {editableHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+            </select>
+            <input
+              value={bulkValue}
+              onChange={(e) => setBulkValue(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSetColumnValue(); }}
+              placeholder="新值 (留空为清空)"
+              className="w-32 text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+            />
+            <button
+              onClick={handleSetColumnValue}
+              className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors rounded-none"
+            >
+              设置列值
+            </button>
+            <button
+              onClick={handleDeleteSelected}
+              className={`px-3 py-1 transition-colors rounded-none ${isConfirmingSelectionDelete ? 'text-white bg-[#C42B1C] hover:bg-[#A52A1D]' : 'text-[#C42B1C] bg-white border border-[#C42B1C] hover:bg-[#FDE7E9]'}`}
+            >
+              {isConfirmingSelectionDelete ? '确认删除?' : '删除'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Search Bar: match navigation and bulk actions on the matching rows */}
+      {deferredSearchQuery.trim() && (
+        <div className="px-2 py-1 bg-[#FFF8E1] border-b border-[#F0DFA8] flex items-center justify-between text-xs text-[#333333]">
+          <div className="flex items-center gap-1">
+            <span>
+              {searchMatches.length > 0
+                ? `第 ${Math.min(currentMatchIndex, searchMatches.length - 1) + 1} / ${searchMatches.length} 处匹配 (${matchedRows.length} 行)`
+                : '没有匹配项'}
+            </span>
+            <button onClick={() => goToMatch(currentMatchIndex - 1)} disabled={searchMatches.length === 0} className="px-2 hover:bg-[#F0E3B8] disabled:text-[#CCCCCC]" title="上一个 (Shift+Enter)">▲</button>
+            <button onClick={() => goToMatch(currentMatchIndex + 1)} disabled={searchMatches.length === 0} className="px-2 hover:bg-[#F0E3B8] disabled:text-[#CCCCCC]" title="下一个 (Enter)">▼</button>
+          </div>
+          {matchedRows.length > 0 && (
+            <div className="flex items-center gap-1">
+              <span className="text-[#666666]">对匹配的 {matchedRows.length} 行:</span>
+              <button
+                onClick={() => onUpdateStatus(matchedRows.map(r => r._internal_id!), 'verified')}
+                className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors rounded-none"
+              >
+                标记已验证
+              </button>
+              <button
+                onClick={() => handleQuickExport('xlsx', matchedRows)}
+                className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors rounded-none"
+              >
+                导出
+              </button>
+              <button
+                onClick={handleDeleteMatchedRows}
+                className={`px-3 py-1 transition-colors rounded-none ${isConfirmingSearchDelete ? 'text-white bg-[#C42B1C] hover:bg-[#A52A1D]' : 'text-[#C42B1C] bg-white border border-[#C42B1C] hover:bg-[#FDE7E9]'}`}
+              >
+                {isConfirmingSearchDelete ? '确认删除?' : '删除'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Grid */}
-      <div className="overflow-auto flex-1 bg-white relative scrollbar-win10">
+      <div
+        ref={scrollContainerRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto flex-1 bg-white relative scrollbar-win10"
+      >
         <table className="w-full text-sm text-left border-collapse table-fixed">
           <thead className="bg-white sticky top-0 z-10 shadow-sm">
             <tr>
-              <th className="w-8 border-b border-r border-[#D9D9D9] bg-[#F5F5F5] text-center"></th>
+              <th className="w-8 border-b border-r border-[#D9D9D9] bg-[#F5F5F5] text-center">
+                <input
+                  type="checkbox"
+                  checked={isAllVisibleSelected}
+                  ref={(el) => { if (el) el.indeterminate = selectedVisibleCount > 0 && !isAllVisibleSelected; }}
+                  onChange={toggleSelectAllVisible}
+                  disabled={filteredData.length === 0}
+                  className="accent-[#0078D7] w-3.5 h-3.5 align-middle"
+                  title="全选/取消全选当前显示的行"
+                />
+              </th>
+              <th className="w-12 border-b border-r border-[#D9D9D9] bg-[#F5F5F5] text-center"></th>
               {headers.map((h, i) => {
                  // Active logic: Either has value filters OR is IN the uniqueColumns set
-                 const isFilterActive = !!activeFilters[h] || uniqueColumns.has(h);
+                 const isFilterActive = !!activeFilters[h] || !!conditions[h] || uniqueColumns.has(h);
                  const isMenuOpen = openFilterHeader === h;
+                 const sortIndex = sortKeys.findIndex(k => k.column === h);
+                 const sortKey = sortKeys[sortIndex];
 
                  return (
                    <th key={i} className="relative px-2 py-1 border-b border-r border-[#D9D9D9] font-normal text-xs text-[#333333] h-[30px] hover:bg-[#EBEBEB] group select-none">
                      <div className="flex items-center justify-between w-full h-full">
-                       <span className="truncate mr-1 font-semibold">{h}</span>
+                       <span
+                         onClick={(e) => handleSortClick(h, e)}
+                         className="flex items-center min-w-0 mr-1 cursor-pointer"
+                         title="点击排序，按住 Shift 点击可多列排序"
+                       >
+                         <span className="truncate font-semibold">{h}</span>
+                         {sortKey && (
+                           <span className="ml-1 text-[10px] text-[#0078D7] flex-shrink-0">
+                             {sortKey.direction === 'asc' ? '▲' : '▼'}
+                             {sortKeys.length > 1 && sortIndex + 1}
+                           </span>
+                         )}
+                       </span>
                        <button 
                           onClick={(e) => handleFilterClick(h, e)}
                           title="筛选"
@@ -409,9 +772,12 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
                          onClick={(e) => e.stopPropagation()}
                        >
                          {(() => {
-                           // Calculate stats inside the dropdown
+                           // Calculate stats inside the dropdown (cached per data version)
                            const stats = getUniqueStats(h);
                            const allValues = stats.map(s => s[0]);
+                           const search = filterSearch.trim().toLowerCase();
+                           const matchingStats = search ? stats.filter(([val]) => val.toLowerCase().includes(search)) : stats;
+                           const shownStats = matchingStats.slice(0, MAX_FILTER_MENU_VALUES);
                            const isAllSelected = tempFilterSelection.size === allValues.length;
                            const isUniqueModeActive = uniqueColumns.has(h);
 
@@ -443,6 +809,60 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
                                   </button>
                                </div>
 
+                               {/* Condition Filter: range for numeric columns, text match for the rest */}
+                               {h !== '状态' && (
+                                 <div className="px-2 py-1.5 border-b border-[#E5E5E5] bg-white flex flex-col gap-1">
+                                   <span className="text-[10px] text-[#666666]">条件筛选</span>
+                                   {isNumericColumn(h) ? (
+                                     <div className="flex items-center gap-1">
+                                       <input
+                                         value={conditionDraft.min}
+                                         onChange={(e) => setConditionDraft({ ...conditionDraft, min: e.target.value })}
+                                         placeholder="最小，如 1w"
+                                         className="w-0 flex-1 text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+                                       />
+                                       <span className="text-xs text-[#999999]">–</span>
+                                       <input
+                                         value={conditionDraft.max}
+                                         onChange={(e) => setConditionDraft({ ...conditionDraft, max: e.target.value })}
+                                         placeholder="最大"
+                                         className="w-0 flex-1 text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+                                       />
+                                     </div>
+                                   ) : (
+                                     <div className="flex items-center gap-1">
+                                       <select
+                                         value={conditionDraft.operator}
+                                         onChange={(e) => setConditionDraft({ ...conditionDraft, operator: e.target.value as TextConditionOperator })}
+                                         className="text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                                       >
+                                         {(Object.keys(CONDITION_OPERATOR_LABELS) as TextConditionOperator[]).map(op => (
+                                           <option key={op} value={op}>{CONDITION_OPERATOR_LABELS[op]}</option>
+                                         ))}
+                                       </select>
+                                       <input
+                                         value={conditionDraft.value}
+                                         onChange={(e) => setConditionDraft({ ...conditionDraft, value: e.target.value })}
+                                         onKeyDown={(e) => { if (e.key === 'Enter') applyFilter(); }}
+                                         placeholder={conditionDraft.operator === 'regex' ? '如 物流|货代' : '关键字'}
+                                         className="w-0 flex-1 text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+                                       />
+                                     </div>
+                                   )}
+                                   {conditionError && <span className="text-[10px] text-red-600">{conditionError}</span>}
+                                 </div>
+                               )}
+
+                               {/* Value Search */}
+                               <div className="px-2 pt-2 bg-white">
+                                 <input
+                                   value={filterSearch}
+                                   onChange={(e) => setFilterSearch(e.target.value)}
+                                   placeholder="搜索值..."
+                                   className="w-full text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+                                 />
+                               </div>
+
                                {/* List Area */}
                                <div className="max-h-60 overflow-y-auto p-2 scrollbar-win10 bg-white">
                                     <div className="flex flex-col gap-1">
@@ -460,7 +880,7 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
                                       <div className="h-[1px] bg-[#E5E5E5] my-1"></div>
                                       
                                       {/* Individual Items - Sorted by Count Descending */}
-                                      {stats.map(([val, count]) => (
+                                      {shownStats.map(([val, count]) => (
                                         <label key={val} className="flex items-center gap-2 px-1 py-0.5 hover:bg-[#F0F0F0] cursor-pointer select-none">
                                           <input 
                                             type="checkbox" 
@@ -472,6 +892,11 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
                                           <span className="text-xs text-[#888888]">({count})</span>
                                         </label>
                                       ))}
+                                      {matchingStats.length > shownStats.length && (
+                                        <div className="px-1 py-1 text-[10px] text-[#999999]">
+                                          仅显示前 {MAX_FILTER_MENU_VALUES} 项 (共 {matchingStats.length} 项)，请输入关键字缩小范围
+                                        </div>
+                                      )}
                                     </div>
                                </div>
                              </>
@@ -484,39 +909,88 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, headers, onImportData,
               })}
             </tr>
           </thead>
-          <tbody>
-            {filteredData.map((row, rIdx) => (
-              <tr key={row._internal_id || rIdx} className="hover:bg-[#E5F3FF] group border-b border-[#F0F0F0]">
-                <td className="w-8 border-r border-[#F0F0F0] bg-[#F9F9F9] text-center text-[10px] text-[#999999] select-none">
-                  {rIdx + 1}
-                </td>
-                {headers.map((header, cIdx) => {
-                    if (header === '状态') {
-                      const isVerified = row.checkStatus === 'verified';
+          {/* Ctrl+Z in a cell undoes table changes; the toolbar, menus and dialogs keep native text undo */}
+          <tbody data-undo-scope="grid">
+            {/* Spacer standing in for the rows above the rendered window */}
+            {visibleStart > 0 && (
+              <tr style={{ height: visibleStart * ROW_HEIGHT }}><td colSpan={headers.length + 2} className="p-0" /></tr>
+            )}
+            {visibleRows.map((row, i) => {
+              const rIdx = visibleStart + i;
+              const isSelected = selectedIds.has(row._internal_id!);
+              return (
+                <tr key={row._internal_id || rIdx} style={{ height: ROW_HEIGHT }} className={`${isSelected ? 'bg-[#CCE8FF]' : 'hover:bg-[#E5F3FF]'} group border-b border-[#F0F0F0]`}>
+                  <td className="w-8 border-r border-[#F0F0F0] text-center">
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      readOnly
+                      onClick={(e) => toggleRowSelection(row, rIdx, e.shiftKey)}
+                      className="accent-[#0078D7] w-3.5 h-3.5 align-middle"
+                    />
+                  </td>
+                  <td className="w-12 border-r border-[#F0F0F0] bg-[#F9F9F9] text-center text-[10px] text-[#999999] select-none">
+                    {rIdx + 1}
+                  </td>
+                  {headers.map((header, cIdx) => {
+                      if (header === '状态') {
+                        if (row.checkStatus === 'flagged') {
+                          return (
+                            <td key={cIdx} className="px-1 border-r border-[#F0F0F0] text-xs w-[60px] whitespace-nowrap">
+                              {isReviewMode ? (
+                                <>
+                                  <button onClick={() => onResolveFlagged([row._internal_id!], true)} title="确认移除" className="px-1 text-red-600 hover:bg-red-50">✕</button>
+                                  <button onClick={() => onResolveFlagged([row._internal_id!], false)} title="保留" className="px-1 text-green-600 hover:bg-green-50">✓</button>
+                                </>
+                              ) : (
+                                <span className="text-[#CA5010]" title="AI 建议移除，待审核">⚑</span>
+                              )}
+                            </td>
+                          );
+                        }
+                        const isVerified = row.checkStatus === 'verified';
+                        return (
+                          <td key={cIdx} className="px-2 border-r border-[#F0F0F0] text-xs w-[60px]">
+                            <span className={isVerified ? 'text-green-600' : 'text-gray-400'}>
+                              {isVerified ? '●' : '○'}
+                            </span>
+                          </td>
+                        );
+                      }
+                      if (AI_VERDICT_HEADERS.includes(header)) {
+                        // AI verdict columns are read-only; the reason is also available as a tooltip
+                        const aiVal = row[header] ?? "";
+                        const isRemoval = header === 'AI判定' && aiVal === '移除';
+                        return (
+                          <td key={cIdx} className={`px-2 border-r border-[#F0F0F0] text-xs truncate ${getSearchHighlight(row, header)}`} title={row.AI理由 || undefined}>
+                            <span className={isRemoval ? 'text-red-600 font-semibold' : 'text-[#555555]'}>
+                              {header === 'AI置信度' && aiVal !== "" ? `${aiVal}%` : aiVal}
+                            </span>
+                          </td>
+                        );
+                      }
+                      const val = row[header] ?? "";
                       return (
-                        <td key={cIdx} className="px-2 border-r border-[#F0F0F0] text-xs w-[60px]">
-                          <span className={isVerified ? 'text-green-600' : 'text-gray-400'}>
-                            {isVerified ? '●' : '○'}
-                          </span>
+                        <td key={cIdx} className={`border-r border-[#F0F0F0] p-0 min-w-[140px] ${getSearchHighlight(row, header)}`}>
+                          <input 
+                            value={val}
+                            onChange={(e) => onCellEdit(row._internal_id!, header, e.target.value)}
+                            onFocus={() => freezeRowOrder(row._internal_id!)}
+                            onBlur={unfreezeRowOrder}
+                            className="w-full h-full px-2 py-1 bg-transparent border-none focus:ring-1 focus:ring-inset focus:ring-[#0078D7] text-xs text-[#333333]"
+                          />
                         </td>
                       );
-                    }
-                    const val = row[header] ?? "";
-                    return (
-                      <td key={cIdx} className="border-r border-[#F0F0F0] p-0 min-w-[140px]">
-                        <input 
-                          value={val}
-                          onChange={(e) => onCellEdit(row._internal_id!, header, e.target.value)}
-                          className="w-full h-full px-2 py-1.5 bg-transparent border-none focus:ring-1 focus:ring-inset focus:ring-[#0078D7] text-xs text-[#333333]"
-                        />
-                      </td>
-                    );
-                })}
-              </tr>
-            ))}
+                  })}
+                </tr>
+              );
+            })}
+            {visibleEnd < filteredData.length && (
+              <tr style={{ height: (filteredData.length - visibleEnd) * ROW_HEIGHT }}><td colSpan={headers.length + 2} className="p-0" /></tr>
+            )}
             {filteredData.length === 0 && (
               <tr>
-                <td colSpan={headers.length + 1} className="text-center py-10 text-[#999999] text-xs">
+                <td colSpan={headers.length + 2} className="text-center py-10 text-[#999999] text-xs">
                   {data.length > 0 ? "没有符合筛选条件的数据" : "暂无数据，请导入或使用左侧工具提取"}
                 </td>
               </tr>
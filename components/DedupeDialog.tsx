@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { CleanerRow, CHECK_STATUS_LABELS } from '../types';
+import {
+  DedupeKey, DuplicateCluster, ClusterResolution, DEDUPE_KEY_LABELS, CLUSTER_FIELDS,
+  findDuplicateClusters, pickMostComplete, resolveCluster, autoMergeCluster
+} from '../services/rowDedupe';
+
+interface DedupeDialogProps {
+  rows: CleanerRow[];
+  onApply: (resolutions: ClusterResolution[]) => void;
+  onClose: () => void;
+}
+
+// Clusters are rendered side by side, so only the first ones are listed at a time
+const MAX_CLUSTERS_SHOWN = 100;
+const DEFAULT_KEYS: DedupeKey[] = ['douyinId', 'contact', 'username'];
+
+// Record-level dedupe: find clusters, pick a survivor (or auto-merge), remove the other rows for good
+export const DedupeDialog: React.FC<DedupeDialogProps> = ({ rows, onApply, onClose }) => {
+  const [keys, setKeys] = useState<DedupeKey[]>(DEFAULT_KEYS);
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  // Cluster id -> chosen survivor id; defaults to the most complete row
+  const [survivorChoice, setSurvivorChoice] = useState<Record<string, number | string>>({});
+
+  const toggleKey = (key: DedupeKey) => {
+    const allKeys = Object.keys(DEDUPE_KEY_LABELS) as DedupeKey[];
+    setKeys(keys.includes(key) ? keys.filter(k => k !== key) : allKeys.filter(k => k === key || keys.includes(k)));
+  };
+
+  const handleSearch = () => {
+    const found = findDuplicateClusters(rows, keys);
+    setClusters(found);
+    setSurvivorChoice(Object.fromEntries(found.map(c => [c.id, pickMostComplete(c.rows)._internal_id!])));
+  };
+
+  // Apply and drop the handled clusters from the list
+  const applyResolutions = (handled: DuplicateCluster[], resolutions: ClusterResolution[]) => {
+    onApply(resolutions);
+    const handledIds = new Set(handled.map(c => c.id));
+    setClusters(prev => (prev || []).filter(c => !handledIds.has(c.id)));
+  };
+
+  const skipCluster = (cluster: DuplicateCluster) => {
+    setClusters(prev => (prev || []).filter(c => c.id !== cluster.id));
+  };
+
+  const shownClusters = (clusters || []).slice(0, MAX_CLUSTERS_SHOWN);
+  const duplicateRowCount = (clusters || []).reduce((sum, c) => sum + c.rows.length - 1, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[900px] max-w-[95vw] h-[85vh] bg-white border border-[#CCCCCC] shadow-[3px_3px_10px_rgba(0,0,0,0.25)] flex flex-col text-xs text-[#333333]"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="px-3 py-2 border-b border-[#E5E5E5] flex justify-between items-center">
+          <span className="font-semibold">去重工具 (永久删除重复行，可撤销)</span>
+          <button onClick={onClose} className="px-2 text-[#666666] hover:text-red-600" title="关闭">✕</button>
+        </div>
+
+        {/* Keys */}
+        <div className="px-3 py-2 border-b border-[#E5E5E5] bg-[#F9F9F9] flex items-center gap-3 flex-wrap">
+          <span className="text-[#666666]">判定重复的依据:</span>
+          {(Object.keys(DEDUPE_KEY_LABELS) as DedupeKey[]).map(key => (
+            <label key={key} className="flex items-center gap-1 select-none cursor-pointer">
+              <input
+                type="checkbox"
+                checked={keys.includes(key)}
+                onChange={() => toggleKey(key)}
+                className="accent-[#0078D7] w-3.5 h-3.5"
+              />
+              {DEDUPE_KEY_LABELS[key]}
+            </label>
+          ))}
+          <button
+            onClick={handleSearch}
+            disabled={keys.length === 0}
+            className="ml-auto px-4 py-1 bg-[#0078D7] text-white hover:bg-[#006CC1] disabled:bg-[#CCCCCC] transition-colors border border-transparent"
+          >
+            {clusters ? '重新查找' : '查找重复'}
+          </button>
+        </div>
+
+        {/* Clusters */}
+        <div className="flex-1 overflow-y-auto scrollbar-win10 p-3 flex flex-col gap-3">
+          {clusters && clusters.length === 0 && (
+            <div className="text-center py-10 text-[#999999]">没有找到重复的行</div>
+          )}
+          {shownClusters.map((cluster, clusterIndex) => {
+            const chosenId = survivorChoice[cluster.id];
+            const mostCompleteId = pickMostComplete(cluster.rows)._internal_id;
+            return (
+              <div key={cluster.id} className="border border-[#D9D9D9]">
+                <div className="px-2 py-1 bg-[#F5F5F5] border-b border-[#D9D9D9] flex items-center justify-between">
+                  <span>
+                    第 {clusterIndex + 1} 组: {cluster.rows.length} 行
+                    <span className="ml-2 text-[#888888]">依据: {cluster.reasons.map(k => DEDUPE_KEY_LABELS[k]).join('、')}</span>
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => applyResolutions([cluster], [resolveCluster(cluster, chosenId, false)])}
+                      className="px-3 py-0.5 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors"
+                      title="保留选中的行，删除其余行"
+                    >
+                      保留所选
+                    </button>
+                    <button
+                      onClick={() => applyResolutions([cluster], [autoMergeCluster(cluster)])}
+                      className="px-3 py-0.5 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors"
+                      title="保留最完整的行，并用其他行补全它的空白字段"
+                    >
+                      自动合并
+                    </button>
+                    <button onClick={() => skipCluster(cluster)} className="px-3 py-0.5 text-[#666666] hover:bg-[#E5E5E5]" title="不是重复，跳过">
+                      跳过
+                    </button>
+                  </div>
+                </div>
+                <div className="overflow-x-auto scrollbar-win10">
+                  <table className="border-collapse">
+                    <thead>
+                      <tr>
+                        <th className="w-16 px-2 py-1 border-r border-b border-[#E5E5E5] bg-[#F9F9F9]"></th>
+                        {cluster.rows.map(row => (
+                          <th key={row._internal_id} className={`min-w-[180px] px-2 py-1 border-r border-b border-[#E5E5E5] font-normal text-left ${row._internal_id === chosenId ? 'bg-[#E5F1FB]' : ''}`}>
+                            <label className="flex items-center gap-1 select-none cursor-pointer">
+                              <input
+                                type="radio"
+                                checked={row._internal_id === chosenId}
+                                onChange={() => setSurvivorChoice({ ...survivorChoice, [cluster.id]: row._internal_id! })}
+                                className="accent-[#0078D7] w-3.5 h-3.5"
+                              />
+                              保留此行
+                              {row._internal_id === mostCompleteId && <span className="text-[#107C10]">(最完整)</span>}
+                            </label>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {['状态', ...CLUSTER_FIELDS].map(field => (
+                        <tr key={field}>
+                          <td className="px-2 py-1 border-r border-b border-[#E5E5E5] bg-[#F9F9F9] font-semibold whitespace-nowrap">{field}</td>
+                          {cluster.rows.map(row => {
+                            const val = field === '状态' ? CHECK_STATUS_LABELS[row.checkStatus || 'unverified'] : String(row[field] ?? '');
+                            return (
+                              <td
+                                key={row._internal_id}
+                                className={`max-w-[240px] px-2 py-1 border-r border-b border-[#E5E5E5] truncate ${row._internal_id === chosenId ? 'bg-[#F3F9FE]' : ''}`}
+                                title={val}
+                              >
+                                {val || <span className="text-[#CCCCCC]">(空)</span>}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+          {clusters && clusters.length > shownClusters.length && (
+            <div className="text-center text-[#999999]">仅显示前 {MAX_CLUSTERS_SHOWN} 组 (共 {clusters.length} 组)，处理后会继续显示</div>
+          )}
+        </div>
+
+        <div className="px-3 py-2 border-t border-[#E5E5E5] bg-[#F9F9F9] flex justify-between items-center">
+          <span className="text-[#666666]">
+            {clusters ? `共 ${clusters.length} 组重复，可删除 ${duplicateRowCount} 行` : '选择依据后点击“查找重复”'}
+          </span>
+          <div className="flex gap-1">
+            <button
+              onClick={() => clusters && applyResolutions(clusters, clusters.map(autoMergeCluster))}
+              disabled={!clusters || clusters.length === 0}
+              className="px-4 py-1 bg-[#0078D7] text-white hover:bg-[#006CC1] disabled:bg-[#CCCCCC] transition-colors border border-transparent"
+              title="每组保留最完整的行并补全空白字段"
+            >
+              全部自动合并
+            </button>
+            <button onClick={onClose} className="px-4 py-1 border border-[#CCCCCC] bg-white hover:bg-[#F0F0F0] transition-colors">关闭</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
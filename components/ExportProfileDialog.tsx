@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { ExportColumn, ExportFormat, ExportProfile } from '../types';
+import {
+  EXPORT_FORMAT_LABELS, createExportColumn, createExportProfile, buildExportFileName,
+  getExportSources, getExportSourceLabel
+} from '../services/rowExport';
+
+interface ExportProfileDialogProps {
+  profiles: ExportProfile[];
+  headers: string[];
+  onSave: (profiles: ExportProfile[]) => void;
+  onExport: (profile: ExportProfile) => void;
+  onClose: () => void;
+}
+
+const validateProfile = (profile: ExportProfile): string | null => {
+  if (!profile.name.trim()) return '请填写方案名称';
+  if (profile.columns.length === 0) return '至少选择一列';
+  const names = profile.columns.map(c => c.header.trim());
+  if (names.some(n => !n)) return '导出列名不能为空';
+  const duplicate = names.find((n, i) => names.indexOf(n) !== i);
+  return duplicate ? `导出列名重复: ${duplicate}` : null;
+};
+
+// Edits a local copy of the project's export profiles; nothing is saved until 保存 / 导出
+export const ExportProfileDialog: React.FC<ExportProfileDialogProps> = ({ profiles, headers, onSave, onExport, onClose }) => {
+  const [drafts, setDrafts] = useState<ExportProfile[]>(() =>
+    profiles.length > 0 ? profiles : [createExportProfile('默认方案', headers)]
+  );
+  const [selectedId, setSelectedId] = useState(drafts[0].id);
+  const [sourceToAdd, setSourceToAdd] = useState('');
+
+  const profile = drafts.find(p => p.id === selectedId) || drafts[0];
+  // Any invalid draft blocks saving; name it when it isn't the one on screen
+  const error = drafts.map(p => {
+    const message = validateProfile(p);
+    return message && p.id !== profile.id ? `${p.name || '(未命名)'}: ${message}` : message;
+  }).find(Boolean) || null;
+  const unusedSources = getExportSources(headers).filter(src => !profile.columns.some(c => c.source === src));
+
+  const updateProfile = (patch: Partial<ExportProfile>) => {
+    setDrafts(drafts.map(p => p.id === profile.id ? { ...p, ...patch } : p));
+  };
+
+  const updateColumns = (columns: ExportColumn[]) => updateProfile({ columns });
+
+  const moveColumn = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= profile.columns.length) return;
+    const columns = [...profile.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    updateColumns(columns);
+  };
+
+  const handleAdd = () => {
+    const created = createExportProfile(`方案 ${drafts.length + 1}`, headers);
+    setDrafts([...drafts, created]);
+    setSelectedId(created.id);
+  };
+
+  const handleDelete = () => {
+    const rest = drafts.filter(p => p.id !== profile.id);
+    const next = rest.length > 0 ? rest : [createExportProfile('默认方案', headers)];
+    setDrafts(next);
+    setSelectedId(next[0].id);
+  };
+
+  const handleAddColumn = () => {
+    if (!sourceToAdd) return;
+    updateColumns([...profile.columns, createExportColumn(sourceToAdd)]);
+    setSourceToAdd('');
+  };
+
+  const handleSave = () => {
+    if (error) return;
+    onSave(drafts);
+  };
+
+  const handleExport = () => {
+    if (error) return;
+    onSave(drafts);
+    onExport(profile);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[760px] max-w-[95vw] h-[80vh] bg-white border border-[#CCCCCC] shadow-[3px_3px_10px_rgba(0,0,0,0.25)] flex flex-col text-xs text-[#333333]"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="px-3 py-2 border-b border-[#E5E5E5] flex justify-between items-center">
+          <span className="font-semibold">导出方案 (随项目保存)</span>
+          <button onClick={onClose} className="px-2 text-[#666666] hover:text-red-600" title="关闭">✕</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Profile list */}
+          <div className="w-44 border-r border-[#E5E5E5] bg-[#F9F9F9] flex flex-col">
+            <div className="flex-1 overflow-y-auto scrollbar-win10 py-1">
+              {drafts.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setSelectedId(p.id)}
+                  className={`block w-full text-left px-3 py-1.5 truncate ${p.id === profile.id ? 'bg-[#CCE8FF]' : 'hover:bg-[#E5E5E5]'}`}
+                  title={p.name}
+                >
+                  {p.name || '(未命名)'}
+                </button>
+              ))}
+            </div>
+            <button onClick={handleAdd} className="m-2 px-2 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors">
+              + 新建方案
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto scrollbar-win10 p-3 flex flex-col gap-3">
+            <div className="grid grid-cols-[80px_1fr] gap-x-2 gap-y-2 items-center">
+              <span className="text-[#666666]">方案名称</span>
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => updateProfile({ name: e.target.value })}
+                placeholder="如：CRM 导入"
+                className="px-1 py-0.5 border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+              />
+              <span className="text-[#666666]">格式</span>
+              <select
+                value={profile.format}
+                onChange={(e) => updateProfile({ format: e.target.value as ExportFormat })}
+                className="p-0.5 bg-white border border-[#999999] outline-none rounded-none"
+              >
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(f => (
+                  <option key={f} value={f}>{EXPORT_FORMAT_LABELS[f]}</option>
+                ))}
+              </select>
+              <span className="text-[#666666]">文件名</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={profile.fileName}
+                  onChange={(e) => updateProfile({ fileName: e.target.value })}
+                  className="flex-1 px-1 py-0.5 border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                />
+                <label className="flex items-center gap-1 select-none cursor-pointer whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={profile.timestampFileName}
+                    onChange={(e) => updateProfile({ timestampFileName: e.target.checked })}
+                    className="accent-[#0078D7] w-3.5 h-3.5"
+                  />
+                  加时间戳
+                </label>
+              </div>
+              <span></span>
+              <span className="text-[#888888]">将保存为: {buildExportFileName(profile)}</span>
+            </div>
+
+            <label className="flex items-center gap-1 select-none cursor-pointer">
+              <input
+                type="checkbox"
+                checked={profile.numericFanCount}
+                onChange={(e) => updateProfile({ numericFanCount: e.target.checked })}
+                className="accent-[#0078D7] w-3.5 h-3.5"
+              />
+              粉丝数导出为数字 (1.2w → 12000)
+            </label>
+
+            {/* Columns */}
+            <div>
+              <div className="mb-1 text-[#666666]">导出列 (按顺序写入，可改列名)</div>
+              <table className="w-full border-collapse table-fixed">
+                <thead>
+                  <tr className="bg-[#F5F5F5]">
+                    <th className="w-14 px-2 py-1 border border-[#D9D9D9] font-semibold text-left">顺序</th>
+                    <th className="px-2 py-1 border border-[#D9D9D9] font-semibold text-left">表格列</th>
+                    <th className="px-2 py-1 border border-[#D9D9D9] font-semibold text-left">导出列名</th>
+                    <th className="w-8 border border-[#D9D9D9]"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile.columns.map((col, index) => (
+                    <tr key={col.source}>
+                      <td className="px-1 border border-[#E5E5E5] text-center whitespace-nowrap">
+                        <button onClick={() => moveColumn(index, -1)} disabled={index === 0} className="px-1 hover:text-[#0078D7] disabled:text-[#CCCCCC]" title="上移">▲</button>
+                        <button onClick={() => moveColumn(index, 1)} disabled={index === profile.columns.length - 1} className="px-1 hover:text-[#0078D7] disabled:text-[#CCCCCC]" title="下移">▼</button>
+                      </td>
+                      <td className="px-2 py-1 border border-[#E5E5E5] truncate" title={getExportSourceLabel(col.source)}>
+                        {getExportSourceLabel(col.source)}
+                      </td>
+                      <td className="p-0 border border-[#E5E5E5]">
+                        <input
+                          type="text"
+                          value={col.header}
+                          onChange={(e) => updateColumns(profile.columns.map((c, i) => i === index ? { ...c, header: e.target.value } : c))}
+                          className="w-full px-2 py-1 border-none outline-none focus:bg-[#F3F9FE]"
+                        />
+                      </td>
+                      <td className="border border-[#E5E5E5] text-center">
+                        <button
+                          onClick={() => updateColumns(profile.columns.filter((_, i) => i !== index))}
+                          className="px-1 text-[#999999] hover:text-red-600"
+                          title="移除此列"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {unusedSources.length > 0 && (
+                <div className="mt-1 flex items-center gap-1">
+                  <select
+                    value={sourceToAdd}
+                    onChange={(e) => setSourceToAdd(e.target.value)}
+                    className="p-0.5 bg-white border border-[#999999] outline-none rounded-none"
+                  >
+                    <option value="">选择要添加的列...</option>
+                    {unusedSources.map(src => <option key={src} value={src}>{getExportSourceLabel(src)}</option>)}
+                  </select>
+                  <button
+                    onClick={handleAddColumn}
+                    disabled={!sourceToAdd}
+                    className="px-3 py-0.5 bg-white border border-[#999999] hover:bg-[#E5E5E5] disabled:text-[#CCCCCC] transition-colors"
+                  >
+                    添加
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-3 py-2 border-t border-[#E5E5E5] bg-[#F9F9F9] flex justify-between items-center gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <button onClick={handleDelete} className="px-3 py-1 text-red-600 hover:bg-[#FDE7E9] transition-colors">删除此方案</button>
+            {error && <span className="text-red-600 truncate">{error}</span>}
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={handleSave}
+              disabled={!!error}
+              className="px-4 py-1 border border-[#CCCCCC] bg-white hover:bg-[#F0F0F0] disabled:text-[#CCCCCC] transition-colors"
+            >
+              保存
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={!!error}
+              className="px-4 py-1 bg-[#0078D7] text-white hover:bg-[#006CC1] disabled:bg-[#CCCCCC] transition-colors border border-transparent"
+            >
+              保存并导出
+            </button>
+            <button onClick={onClose} className="px-4 py-1 border border-[#CCCCCC] bg-white hover:bg-[#F0F0F0] transition-colors">关闭</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ExtractField, ExtractFieldType } from '../types';
+import { EXTRACT_FIELD_PRESETS, EXTRACT_FIELD_TYPE_LABELS, createExtractField, validateExtractFields } from '../services/extractSchema';
+
+interface ExtractSchemaDialogProps {
+  fields: ExtractField[];
+  onSave: (fields: ExtractField[]) => void;
+  onClose: () => void;
+}
+
+// Edits a draft of the project's custom extraction fields; saved together so a half-typed field never reaches the model
+export const ExtractSchemaDialog: React.FC<ExtractSchemaDialogProps> = ({ fields, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<ExtractField[]>(fields);
+  const errors = validateExtractFields(drafts);
+  const hasErrors = Object.keys(errors).length > 0;
+  const availablePresets = EXTRACT_FIELD_PRESETS.filter(p => !drafts.some(d => d.key.trim() === p.key || d.column.trim() === p.column));
+
+  const updateField = (id: string, patch: Partial<ExtractField>) => {
+    setDrafts(drafts.map(f => f.id === id ? { ...f, ...patch } : f));
+  };
+
+  const handleSave = () => {
+    if (hasErrors) return;
+    onSave(drafts.map(f => ({ ...f, key: f.key.trim(), column: f.column.trim(), description: f.description.trim() })));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[820px] max-w-[95vw] max-h-[85vh] bg-white border border-[#CCCCCC] shadow-[3px_3px_10px_rgba(0,0,0,0.25)] flex flex-col text-xs text-[#333333]"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="px-3 py-2 border-b border-[#E5E5E5] flex justify-between items-center">
+          <span className="font-semibold">自定义提取字段 (随项目保存)</span>
+          <button onClick={onClose} className="px-2 text-[#666666] hover:text-red-600" title="关闭">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-win10 p-3 flex flex-col gap-3">
+          <div className="text-[#666666]">
+            除用户名、抖音号、粉丝数、简介、联系方式外，AI 还会为每个账号提取下列字段，写入表格中同名的列。
+          </div>
+
+          <table className="w-full border-collapse table-fixed">
+            <thead>
+              <tr className="bg-[#F5F5F5]">
+                <th className="w-28 px-2 py-1 border border-[#D9D9D9] font-semibold text-left">列名</th>
+                <th className="w-32 px-2 py-1 border border-[#D9D9D9] font-semibold text-left" title="模型输出 JSON 中的属性名">字段键</th>
+                <th className="w-24 px-2 py-1 border border-[#D9D9D9] font-semibold text-left">类型</th>
+                <th className="px-2 py-1 border border-[#D9D9D9] font-semibold text-left">说明 (告诉模型提取什么)</th>
+                <th className="w-8 border border-[#D9D9D9]"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {drafts.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-2 py-4 border border-[#E5E5E5] text-center text-[#999999]">暂无自定义字段</td>
+                </tr>
+              )}
+              {drafts.map(field => (
+                <React.Fragment key={field.id}>
+                  <tr className={errors[field.id] ? 'bg-red-50' : ''}>
+                    <td className="p-0 border border-[#E5E5E5]">
+                      <input
+                        type="text"
+                        value={field.column}
+                        onChange={(e) => updateField(field.id, { column: e.target.value })}
+                        placeholder="如：所在地"
+                        className="w-full px-2 py-1 bg-transparent border-none outline-none focus:bg-[#F3F9FE]"
+                      />
+                    </td>
+                    <td className="p-0 border border-[#E5E5E5]">
+                      <input
+                        type="text"
+                        value={field.key}
+                        onChange={(e) => updateField(field.id, { key: e.target.value })}
+                        placeholder="如：location"
+                        className="w-full px-2 py-1 font-mono bg-transparent border-none outline-none focus:bg-[#F3F9FE]"
+                      />
+                    </td>
+                    <td className="p-0 border border-[#E5E5E5]">
+                      <select
+                        value={field.type}
+                        onChange={(e) => updateField(field.id, { type: e.target.value as ExtractFieldType })}
+                        className="w-full text-xs p-1 bg-transparent border-none outline-none rounded-none"
+                      >
+                        {(Object.keys(EXTRACT_FIELD_TYPE_LABELS) as ExtractFieldType[]).map(t => (
+                          <option key={t} value={t}>{EXTRACT_FIELD_TYPE_LABELS[t]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-0 border border-[#E5E5E5]">
+                      <input
+                        type="text"
+                        value={field.description}
+                        onChange={(e) => updateField(field.id, { description: e.target.value })}
+                        placeholder="如：IP属地或简介中的所在城市"
+                        className="w-full px-2 py-1 bg-transparent border-none outline-none focus:bg-[#F3F9FE]"
+                      />
+                    </td>
+                    <td className="border border-[#E5E5E5] text-center">
+                      <button
+                        onClick={() => setDrafts(drafts.filter(f => f.id !== field.id))}
+                        className="px-1 text-[#999999] hover:text-red-600"
+                        title="删除字段 (表格中已有的数据会保留)"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                  {errors[field.id] && (
+                    <tr>
+                      <td colSpan={5} className="px-2 py-0.5 border border-[#E5E5E5] text-red-600 bg-red-50">{errors[field.id]}</td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap items-center gap-1">
+            <button
+              onClick={() => setDrafts([...drafts, createExtractField()])}
+              className="px-3 py-0.5 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors"
+            >
+              + 自定义字段
+            </button>
+            {availablePresets.length > 0 && <span className="ml-2 text-[#666666]">常用:</span>}
+            {availablePresets.map(preset => (
+              <button
+                key={preset.key}
+                onClick={() => setDrafts([...drafts, createExtractField(preset)])}
+                className="px-2 py-0.5 bg-white border border-[#D9D9D9] hover:bg-[#E5F1FB] hover:border-[#0078D7] transition-colors"
+                title={preset.description}
+              >
+                + {preset.column}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-3 py-2 border-t border-[#E5E5E5] bg-[#F9F9F9] flex justify-end gap-1">
+          <button
+            onClick={handleSave}
+            disabled={hasErrors}
+            className="px-4 py-1 bg-[#0078D7] text-white hover:bg-[#006CC1] disabled:bg-[#CCCCCC] transition-colors border border-transparent"
+          >
+            保存
+          </button>
+          <button onClick={onClose} className="px-4 py-1 border border-[#CCCCCC] bg-white hover:bg-[#F0F0F0] transition-colors">取消</button>
+        </div>
+      </div>
+    </div>
+  );
+};
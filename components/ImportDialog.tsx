@@ -0,0 +1,321 @@
+import React, { useState, useMemo } from 'react';
+import { CleanerRow, ImportMatchKey, ImportMergeOptions, ImportStrategy, SOURCE_COLUMN } from '../types';
+import {
+  STANDARD_FIELDS, KEEP_COLUMN, IGNORE_COLUMN, ColumnMapping,
+  isStandardField, suggestMapping, applyColumnMapping, rememberMappings
+} from '../services/columnMapping';
+import { IMPORT_MATCH_KEYS, loadImportMergeOptions, saveImportMergeOptions } from '../services/importMerge';
+import { CsvEncoding, CSV_ENCODING_LABELS, ImportSource, decodeCsvSource } from '../services/spreadsheetImport';
+
+interface ImportDialogProps {
+  sources: ImportSource[];
+  onConfirm: (rows: CleanerRow[], options: ImportMergeOptions, label: string) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const SAMPLE_VALUES = 2;
+
+const STRATEGY_LABELS: Record<ImportStrategy, string> = {
+  skip: '跳过',
+  overwrite: '覆盖 (用导入的值替换)',
+  fill_empty: '合并 (只补全空白字段)'
+};
+
+const MATCH_KEY_LABELS: Record<ImportMatchKey, string> = {
+  抖音号: '抖音号',
+  联系方式: '联系方式',
+  用户名: '用户名 (忽略空格和符号)'
+};
+
+const TARGET_LABELS: Record<string, string> = {
+  [KEEP_COLUMN]: '保留为附加列',
+  [IGNORE_COLUMN]: '忽略'
+};
+
+const uniqueHeaders = (sources: ImportSource[]) => Array.from(new Set(sources.flatMap(src => src.headers)));
+
+// Suggest per sheet (so two sheets can each map their own name column), first suggestion per header wins
+const suggestForSources = (sources: ImportSource[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  sources.forEach(src => {
+    Object.entries(suggestMapping(uniqueHeaders([src]))).forEach(([header, target]) => {
+      if (!(header in mapping)) mapping[header] = target;
+    });
+  });
+  return mapping;
+};
+
+// Import wizard: pick sheets/files, map their columns onto the standard fields, preview, then import
+export const ImportDialog: React.FC<ImportDialogProps> = ({ sources: initialSources, onConfirm, onCancel }) => {
+  const [sources, setSources] = useState(initialSources);
+  const [selectedSourceIds, setSelectedSourceIds] = useState<Set<string>>(() => new Set(sources.map(src => src.id)));
+  const [addSourceColumn, setAddSourceColumn] = useState(sources.length > 1);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestForSources(sources));
+  const [shouldRemember, setShouldRemember] = useState(true);
+  const [mergeOptions, setMergeOptions] = useState<ImportMergeOptions>(loadImportMergeOptions);
+
+  const selectedSources = useMemo(() => sources.filter(src => selectedSourceIds.has(src.id)), [sources, selectedSourceIds]);
+  // Union of headers across the selected sheets, in first-seen order
+  const sourceHeaders = useMemo(() => uniqueHeaders(selectedSources), [selectedSources]);
+  const totalRows = selectedSources.reduce((sum, src) => sum + src.rows.length, 0);
+
+  // First non-empty values per column, to tell similar headers apart
+  const samples = useMemo(() => Object.fromEntries(sourceHeaders.map(header => {
+    const values: string[] = [];
+    for (const src of selectedSources) {
+      const colIndex = src.headers.indexOf(header);
+      if (colIndex === -1) continue;
+      for (const row of src.rows) {
+        const val = String(row?.[colIndex] ?? "").trim();
+        if (val) values.push(val);
+        if (values.length >= SAMPLE_VALUES) break;
+      }
+      if (values.length >= SAMPLE_VALUES) break;
+    }
+    return [header, values];
+  })), [sourceHeaders, selectedSources]);
+
+  const mapSource = (src: ImportSource, rows: any[][]) =>
+    applyColumnMapping(src.headers, rows, mapping, addSourceColumn ? src.label : undefined);
+
+  const preview = useMemo(() => {
+    const result: CleanerRow[] = [];
+    for (const src of selectedSources) {
+      if (result.length >= PREVIEW_ROWS) break;
+      result.push(...mapSource(src, src.rows.slice(0, PREVIEW_ROWS - result.length)));
+    }
+    return result;
+  }, [selectedSources, mapping, addSourceColumn]);
+
+  const previewFields: string[] = addSourceColumn ? [...STANDARD_FIELDS, SOURCE_COLUMN] : [...STANDARD_FIELDS];
+  const unmappedFields = STANDARD_FIELDS.filter(f => !sourceHeaders.some(h => mapping[h] === f));
+
+  const setTarget = (header: string, target: string) => {
+    setMapping({ ...mapping, [header]: target });
+  };
+
+  const changeEncoding = (source: ImportSource, encoding: CsvEncoding) => {
+    const decoded = decodeCsvSource(source, encoding);
+    setSources(sources.map(src => src.id === source.id ? decoded : src));
+    // Headers read with the wrong encoding were garbled, so the corrected ones need suggestions of their own
+    setMapping({ ...suggestForSources([decoded]), ...mapping });
+  };
+
+  const toggleSource = (id: string) => {
+    const next = new Set(selectedSourceIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedSourceIds(next);
+  };
+
+  const toggleMatchKey = (key: ImportMatchKey) => {
+    const keys = mergeOptions.matchKeys.includes(key)
+      ? mergeOptions.matchKeys.filter(k => k !== key)
+      : IMPORT_MATCH_KEYS.filter(k => k === key || mergeOptions.matchKeys.includes(k)); // Keep priority order
+    setMergeOptions({ ...mergeOptions, matchKeys: keys });
+  };
+
+  const handleConfirm = () => {
+    if (selectedSources.length === 0) return;
+    if (shouldRemember) rememberMappings(Object.fromEntries(sourceHeaders.map(h => [h, mapping[h]])));
+    saveImportMergeOptions(mergeOptions);
+    const rows = selectedSources.flatMap(src => mapSource(src, src.rows));
+    const label = selectedSources.length === 1 ? selectedSources[0].label : `${selectedSources.length} 个文件/工作表`;
+    onConfirm(rows, mergeOptions, label);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center" onMouseDown={onCancel}>
+      <div
+        className="w-[720px] max-h-[85vh] bg-white border border-[#CCCCCC] shadow-[3px_3px_10px_rgba(0,0,0,0.25)] flex flex-col text-xs text-[#333333]"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="px-3 py-2 border-b border-[#E5E5E5] flex justify-between items-center">
+          <span className="font-semibold truncate">
+            导入: {sources.length === 1 ? sources[0].label : `${sources.length} 个文件/工作表`} ({totalRows} 行)
+          </span>
+          <button onClick={onCancel} className="px-2 text-[#666666] hover:text-red-600" title="取消">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-win10 p-3 flex flex-col gap-3">
+          {/* Sources: sheet picker for workbooks and multi-file drops, encoding override for CSVs */}
+          <div>
+            {(sources.length > 1 || sources.some(src => src.csv)) && (
+              <>
+                <div className="mb-1 text-[#666666]">
+                  数据来源{sources.length > 1 && ' (选择要导入的文件/工作表)'}
+                </div>
+                <div className="max-h-40 overflow-y-auto scrollbar-win10 border border-[#E5E5E5] p-1 mb-1">
+                  {sources.map(src => (
+                    <div key={src.id} className="px-1 py-0.5 hover:bg-[#F0F0F0]">
+                      <div className="flex items-center gap-2">
+                        {sources.length > 1 && (
+                          <input
+                            type="checkbox"
+                            checked={selectedSourceIds.has(src.id)}
+                            onChange={() => toggleSource(src.id)}
+                            className="accent-[#0078D7] w-3.5 h-3.5"
+                          />
+                        )}
+                        <span className="truncate flex-1" title={src.label}>{src.label}</span>
+                        <span className="text-[#888888]">({src.rows.length} 行)</span>
+                        {src.csv && (
+                          <select
+                            value={src.csv.encoding}
+                            onChange={(e) => changeEncoding(src, e.target.value as CsvEncoding)}
+                            className="text-xs p-0.5 bg-white border border-[#CCCCCC] outline-none rounded-none"
+                            title="乱码时请手动选择编码"
+                          >
+                            {(Object.keys(CSV_ENCODING_LABELS) as CsvEncoding[]).map(enc => (
+                              <option key={enc} value={enc}>
+                                {CSV_ENCODING_LABELS[enc]}{enc === src.csv!.detected ? ' (自动检测)' : ''}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                      {/* Header row as decoded, so garbled text is obvious before importing */}
+                      <div className="truncate text-[#888888]" title={src.headers.join(', ')}>表头: {src.headers.join(', ')}</div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+            <label className="flex items-center gap-1 select-none cursor-pointer">
+              <input
+                type="checkbox"
+                checked={addSourceColumn}
+                onChange={(e) => setAddSourceColumn(e.target.checked)}
+                className="accent-[#0078D7] w-3.5 h-3.5"
+              />
+              添加“{SOURCE_COLUMN}”列，记录每行来自哪个文件/工作表
+            </label>
+          </div>
+
+          {/* Column Mapping */}
+          <div>
+            <div className="mb-1 text-[#666666]">列映射 (已根据表头自动匹配，可手动修改)</div>
+            <table className="w-full border-collapse table-fixed">
+              <thead>
+                <tr className="bg-[#F5F5F5]">
+                  <th className="w-1/4 px-2 py-1 border border-[#D9D9D9] font-semibold text-left">文件中的列</th>
+                  <th className="px-2 py-1 border border-[#D9D9D9] font-semibold text-left">示例</th>
+                  <th className="w-40 px-2 py-1 border border-[#D9D9D9] font-semibold text-left">导入为</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sourceHeaders.map(header => (
+                  <tr key={header}>
+                    <td className="px-2 py-1 border border-[#E5E5E5] truncate" title={header}>{header}</td>
+                    <td className="px-2 py-1 border border-[#E5E5E5] truncate text-[#888888]" title={samples[header].join(' | ')}>
+                      {samples[header].join(' | ') || '(空)'}
+                    </td>
+                    <td className="p-0 border border-[#E5E5E5]">
+                      <select
+                        value={mapping[header]}
+                        onChange={(e) => setTarget(header, e.target.value)}
+                        className={`w-full text-xs p-1 bg-white border-none outline-none rounded-none ${isStandardField(mapping[header]) ? 'text-[#0078D7] font-semibold' : 'text-[#666666]'}`}
+                      >
+                        {STANDARD_FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+                        <option value={KEEP_COLUMN}>{TARGET_LABELS[KEEP_COLUMN]}</option>
+                        <option value={IGNORE_COLUMN}>{TARGET_LABELS[IGNORE_COLUMN]}</option>
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {unmappedFields.length > 0 && (
+              <div className="mt-1 text-[#CA5010]">未匹配的字段: {unmappedFields.join('、')} (导入后为空)</div>
+            )}
+          </div>
+
+          {/* Duplicate Handling */}
+          <div>
+            <div className="mb-1 text-[#666666]">重复处理 (与表格中已有的行比较，也包括文件内部的重复)</div>
+            <div className="flex flex-col gap-1 p-2 border border-[#E5E5E5] bg-[#F9F9F9]">
+              <div className="flex items-center gap-3">
+                <span className="w-20 text-[#666666]">匹配依据:</span>
+                {IMPORT_MATCH_KEYS.map(key => (
+                  <label key={key} className="flex items-center gap-1 select-none cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={mergeOptions.matchKeys.includes(key)}
+                      onChange={() => toggleMatchKey(key)}
+                      className="accent-[#0078D7] w-3.5 h-3.5"
+                    />
+                    {MATCH_KEY_LABELS[key]}
+                  </label>
+                ))}
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="w-20 text-[#666666]">遇到重复时:</span>
+                {(Object.keys(STRATEGY_LABELS) as ImportStrategy[]).map(strategy => (
+                  <label key={strategy} className="flex items-center gap-1 select-none cursor-pointer">
+                    <input
+                      type="radio"
+                      checked={mergeOptions.strategy === strategy}
+                      onChange={() => setMergeOptions({ ...mergeOptions, strategy })}
+                      disabled={mergeOptions.matchKeys.length === 0}
+                      className="accent-[#0078D7] w-3.5 h-3.5"
+                    />
+                    {STRATEGY_LABELS[strategy]}
+                  </label>
+                ))}
+              </div>
+              {mergeOptions.matchKeys.length === 0 && (
+                <div className="text-[#CA5010]">未选择匹配依据，所有行都会直接追加</div>
+              )}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div>
+            <div className="mb-1 text-[#666666]">预览 (前 {PREVIEW_ROWS} 行)</div>
+            <table className="w-full border-collapse table-fixed">
+              <thead>
+                <tr className="bg-[#F5F5F5]">
+                  {previewFields.map(f => (
+                    <th key={f} className="px-2 py-1 border border-[#D9D9D9] font-semibold text-left">{f}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map(row => (
+                  <tr key={row._internal_id}>
+                    {previewFields.map(f => (
+                      <td key={f} className="px-2 py-1 border border-[#E5E5E5] truncate" title={String(row[f] ?? '')}>{String(row[f] ?? '')}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="px-3 py-2 border-t border-[#E5E5E5] bg-[#F9F9F9] flex justify-between items-center">
+          <label className="flex items-center gap-1 select-none cursor-pointer">
+            <input
+              type="checkbox"
+              checked={shouldRemember}
+              onChange={(e) => setShouldRemember(e.target.checked)}
+              className="accent-[#0078D7] w-3.5 h-3.5"
+            />
+            记住这些映射，下次导入相同表头时自动使用
+          </label>
+          <div className="flex gap-1">
+            <button
+              onClick={handleConfirm}
+              disabled={selectedSources.length === 0}
+              className="px-4 py-1 bg-[#0078D7] text-white hover:bg-[#006CC1] disabled:bg-[#CCCCCC] transition-colors border border-transparent"
+            >
+              导入
+            </button>
+            <button onClick={onCancel} className="px-4 py-1 border border-[#CCCCCC] bg-white hover:bg-[#F0F0F0] transition-colors">取消</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
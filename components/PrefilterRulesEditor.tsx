@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { CleanerRow, PrefilterAction, PrefilterField, PrefilterRule } from '../types';
+import {
+  PREFILTER_ACTION_LABELS, PREFILTER_FIELD_LABELS, PrefilterResult,
+  createPrefilterRule, createDefaultPrefilterRules, runPrefilter, validatePrefilterRule
+} from '../services/prefilterRules';
+
+interface PrefilterRulesEditorProps {
+  rules: PrefilterRule[];
+  onChange: (rules: PrefilterRule[]) => void;
+  candidateRows: CleanerRow[]; // Rows the next run would check; the dry-run counts against these
+}
+
+const ACTION_COLORS: Record<PrefilterAction, string> = {
+  keep: 'text-[#107C10]',
+  remove: 'text-[#C42B1C]',
+  defer: 'text-[#666666]'
+};
+
+// Ordered rule list for the relevance tab; the first matching rule decides a row
+export const PrefilterRulesEditor: React.FC<PrefilterRulesEditorProps> = ({ rules, onChange, candidateRows }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  // Counts belong to the rules they were computed for; any edit hides them until the next dry-run
+  const [dryRun, setDryRun] = useState<{ rules: PrefilterRule[]; result: PrefilterResult } | null>(null);
+  const result = dryRun && dryRun.rules === rules ? dryRun.result : null;
+
+  const enabledCount = rules.filter(r => r.enabled).length;
+
+  const updateRule = (id: string, patch: Partial<PrefilterRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const moveRule = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const keepCount = result ? result.verdicts.filter(v => v.verdict === 'keep').length : 0;
+
+  return (
+    <div className="bg-white border border-[#D9D9D9]">
+      <div className="px-3 py-2 flex justify-between items-center">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="text-xs font-bold text-[#333333] flex items-center gap-1">
+          <span className="text-[10px] text-[#666666]">{isExpanded ? '▼' : '▶'}</span>
+          本地预筛规则 ({enabledCount}/{rules.length} 启用)
+        </button>
+        {isExpanded && rules.length === 0 && (
+          <button
+            onClick={() => onChange(createDefaultPrefilterRules())}
+            className="text-[10px] text-[#0078D7] hover:underline cursor-pointer"
+            title="添加物流关键词保留、美食类建议移除的示例规则"
+          >
+            添加示例规则
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 flex flex-col gap-2">
+          <div className="text-[10px] text-[#888888]">按顺序匹配，第一条命中的规则决定结果；都未命中的行交给 AI。关键词用 | 分隔。</div>
+
+          <div className="max-h-64 overflow-y-auto scrollbar-win10 flex flex-col gap-1">
+            {rules.map((rule, index) => {
+              const error = validatePrefilterRule(rule);
+              return (
+                <div key={rule.id} className={`p-1.5 border ${error ? 'border-red-300 bg-red-50' : 'border-[#E5E5E5]'} ${rule.enabled ? '' : 'opacity-60'} flex flex-col gap-1`}>
+                  <div className="flex items-center gap-1 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      className="accent-[#0078D7] w-3.5 h-3.5"
+                      title="启用"
+                    />
+                    <span className="text-[#888888] w-5">#{index + 1}</span>
+                    <select
+                      value={rule.field}
+                      onChange={(e) => updateRule(rule.id, { field: e.target.value as PrefilterField })}
+                      className="text-xs p-0.5 bg-white border border-[#CCCCCC] outline-none rounded-none"
+                    >
+                      {(Object.keys(PREFILTER_FIELD_LABELS) as PrefilterField[]).map(f => (
+                        <option key={f} value={f}>{PREFILTER_FIELD_LABELS[f]}</option>
+                      ))}
+                    </select>
+                    <span className="text-[#666666]">→</span>
+                    <select
+                      value={rule.action}
+                      onChange={(e) => updateRule(rule.id, { action: e.target.value as PrefilterAction })}
+                      className={`text-xs p-0.5 bg-white border border-[#CCCCCC] outline-none rounded-none ${ACTION_COLORS[rule.action]}`}
+                    >
+                      {(Object.keys(PREFILTER_ACTION_LABELS) as PrefilterAction[]).map(a => (
+                        <option key={a} value={a}>{PREFILTER_ACTION_LABELS[a]}</option>
+                      ))}
+                    </select>
+                    {result && <span className="ml-auto text-[#0078D7]" title="试运行中由此规则决定的行数">{result.hits[index]} 行</span>}
+                    <div className={`${result ? '' : 'ml-auto'} flex`}>
+                      <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="px-0.5 text-[#666666] hover:text-[#0078D7] disabled:text-[#CCCCCC]" title="上移">▲</button>
+                      <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="px-0.5 text-[#666666] hover:text-[#0078D7] disabled:text-[#CCCCCC]" title="下移">▼</button>
+                      <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="px-1 text-[#999999] hover:text-red-600" title="删除规则">✕</button>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="text"
+                      value={rule.pattern}
+                      onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                      placeholder={rule.isRegex ? '正则表达式，如 清关|报关' : '关键词，如 双清包税|海外仓'}
+                      className="flex-1 min-w-0 px-1 py-0.5 text-xs font-mono bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                    />
+                    <label className="flex items-center gap-0.5 text-[10px] text-[#666666] select-none cursor-pointer whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={rule.isRegex}
+                        onChange={(e) => updateRule(rule.id, { isRegex: e.target.checked })}
+                        className="accent-[#0078D7] w-3 h-3"
+                      />
+                      正则
+                    </label>
+                    {rule.action !== 'defer' && (
+                      <input
+                        type="text"
+                        value={rule.category}
+                        onChange={(e) => updateRule(rule.id, { category: e.target.value })}
+                        placeholder="分类"
+                        title="写入 AI分类 列"
+                        className="w-14 px-1 py-0.5 text-xs bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                      />
+                    )}
+                  </div>
+                  {error && <div className="text-[10px] text-red-600">{error}</div>}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-1">
+            <button
+              onClick={() => onChange([...rules, createPrefilterRule()])}
+              className="flex-1 py-1 text-xs bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors"
+            >
+              + 添加规则
+            </button>
+            <button
+              onClick={() => setDryRun({ rules, result: runPrefilter(candidateRows, rules) })}
+              disabled={candidateRows.length === 0 || enabledCount === 0}
+              className="flex-1 py-1 text-xs bg-white border border-[#999999] hover:bg-[#E5E5E5] disabled:text-[#AAAAAA] transition-colors"
+              title="只统计命中数，不修改数据"
+            >
+              试运行 ({candidateRows.length} 行待检查)
+            </button>
+          </div>
+
+          {result && (
+            <div className="text-xs p-2 border-l-2 border-[#0078D7] bg-[#F3F9FE] text-[#333333]">
+              试运行: 保留 {keepCount}，建议移除 {result.verdicts.length - keepCount}，交给 AI {result.deferred.length}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
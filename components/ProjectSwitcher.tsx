@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProjectMeta } from '../types';
+
+interface ProjectSwitcherProps {
+  projects: ProjectMeta[];
+  activeProjectId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Title-bar dropdown for managing named projects (one lead list per campaign)
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ projects, activeProjectId, onSwitch, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  // Two-click delete, same pattern as the Reset All button
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setRenamingId(null);
+        setConfirmingDeleteId(null);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  // Auto-cancel delete confirmation after 3 seconds
+  useEffect(() => {
+    if (confirmingDeleteId) {
+      const timer = setTimeout(() => setConfirmingDeleteId(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [confirmingDeleteId]);
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const startRename = (project: ProjectMeta) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const commitRename = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) onRename(renamingId, name);
+    setRenamingId(null);
+  };
+
+  const handleDeleteClick = (id: string) => {
+    if (confirmingDeleteId !== id) {
+      setConfirmingDeleteId(id);
+      return;
+    }
+    setConfirmingDeleteId(null);
+    onDelete(id);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 px-2 py-0.5 text-xs text-[#333333] hover:bg-[#E5E5E5] border border-transparent hover:border-[#CCCCCC]"
+        title="切换或管理项目"
+      >
+        <span className="text-[#999999]">项目:</span>
+        <span className="font-semibold max-w-[160px] truncate">{activeProject?.name || '...'}</span>
+        <span className="text-[10px] text-[#999999]">▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-0 w-80 bg-white border border-[#CCCCCC] shadow-[3px_3px_10px_rgba(0,0,0,0.15)] z-50 text-xs">
+          <div className="max-h-72 overflow-y-auto scrollbar-win10 py-1">
+            {projects.map(project => {
+              const isActive = project.id === activeProjectId;
+              return (
+                <div
+                  key={project.id}
+                  className={`flex items-center gap-1 px-2 py-1 group ${isActive ? 'bg-[#E5F1FB]' : 'hover:bg-[#F0F0F0]'}`}
+                >
+                  {renamingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="flex-1 text-xs p-1 border border-[#0078D7] outline-none rounded-none"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => { onSwitch(project.id); setIsOpen(false); }}
+                      className={`flex-1 text-left truncate ${isActive ? 'text-[#0078D7] font-semibold' : 'text-[#333333]'}`}
+                      title={project.name}
+                    >
+                      {project.name}
+                      <span className="ml-1 text-[10px] text-[#999999] font-normal">({project.rowCount})</span>
+                    </button>
+                  )}
+                  <button onClick={() => startRename(project)} className="px-1 text-[#666666] hover:text-[#0078D7]" title="重命名">✎</button>
+                  <button onClick={() => onDuplicate(project.id)} className="px-1 text-[#666666] hover:text-[#0078D7]" title="复制项目">⧉</button>
+                  <button
+                    onClick={() => handleDeleteClick(project.id)}
+                    disabled={projects.length <= 1}
+                    className={`px-1 disabled:text-[#CCCCCC] ${confirmingDeleteId === project.id ? 'text-white bg-red-600' : 'text-[#666666] hover:text-red-600'}`}
+                    title={projects.length <= 1 ? '至少保留一个项目' : '删除项目 (再次点击确认)'}
+                  >
+                    {confirmingDeleteId === project.id ? '确认删除' : '✕'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-1 p-2 border-t border-[#E5E5E5] bg-[#F9F9F9]">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+              placeholder="新项目名称，如：美国专线-10月"
+              className="flex-1 text-xs p-1 bg-white border border-[#999999] focus:border-[#0078D7] outline-none rounded-none placeholder-gray-400"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="px-3 py-1 text-xs text-white bg-[#0078D7] hover:bg-[#006CC1] disabled:bg-[#CCCCCC] rounded-none"
+            >
+              新建
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
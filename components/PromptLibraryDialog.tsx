@@ -0,0 +1,312 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PromptKind, PromptTemplate } from '../types';
+import {
+  PROMPT_KIND_LABELS, loadPromptTemplates, savePromptTemplates, getLatestContent, createPromptTemplate,
+  addPromptVersion, serializePromptTemplates, parsePromptTemplates, mergePromptTemplates
+} from '../services/promptLibrary';
+import { diffLines } from '../services/textDiff';
+import { saveTextFile } from '../services/rowExport';
+
+interface PromptLibraryDialogProps {
+  initialKind: PromptKind;
+  prompts: Record<PromptKind, string>; // The project's working prompts
+  defaultPromptIds: Partial<Record<PromptKind, string>>;
+  onApply: (kind: PromptKind, content: string) => void;
+  onSetDefault: (kind: PromptKind, templateId: string | undefined) => void;
+  onClose: () => void;
+}
+
+const formatSavedAt = (savedAt: number) => savedAt ? new Date(savedAt).toLocaleString('zh-CN') : '内置';
+
+export const PromptLibraryDialog: React.FC<PromptLibraryDialogProps> = ({ initialKind, prompts, defaultPromptIds, onApply, onSetDefault, onClose }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+  const [kind, setKind] = useState<PromptKind>(initialKind);
+  const [selectedId, setSelectedId] = useState<string | null>(defaultPromptIds[initialKind] || null);
+  // Index into the selected template's versions; null = latest
+  const [versionIndex, setVersionIndex] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<'project' | 'previous'>('project');
+  const [newName, setNewName] = useState('');
+  const [versionNote, setVersionNote] = useState('');
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [notice, setNotice] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const kindTemplates = templates.filter(t => t.kind === kind);
+  const selected = kindTemplates.find(t => t.id === selectedId) || kindTemplates[0] || null;
+  const shownIndex = selected ? Math.min(versionIndex ?? selected.versions.length - 1, selected.versions.length - 1) : 0;
+  const shownContent = selected ? selected.versions[shownIndex].content : '';
+  const baseContent = compareTo === 'project' || !selected
+    ? prompts[kind]
+    : selected.versions[shownIndex - 1]?.content ?? '';
+
+  // Diff from the comparison base to the version on screen
+  const diff = useMemo(() => diffLines(baseContent, shownContent), [baseContent, shownContent]);
+  const hasChanges = diff.some(line => line.type !== 'same');
+
+  useEffect(() => {
+    if (isConfirmingDelete) {
+      const timer = setTimeout(() => setIsConfirmingDelete(false), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [isConfirmingDelete]);
+
+  const updateTemplates = (next: PromptTemplate[]) => {
+    setTemplates(next);
+    savePromptTemplates(next);
+  };
+
+  const selectTemplate = (id: string) => {
+    setSelectedId(id);
+    setVersionIndex(null);
+    setIsConfirmingDelete(false);
+  };
+
+  const switchKind = (next: PromptKind) => {
+    setKind(next);
+    setSelectedId(defaultPromptIds[next] || null);
+    setVersionIndex(null);
+    setNotice('');
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const created = createPromptTemplate(name, kind, prompts[kind]);
+    updateTemplates([...templates, created]);
+    selectTemplate(created.id);
+    setNewName('');
+    setNotice(`已用当前${PROMPT_KIND_LABELS[kind]}提示词创建模板“${name}”`);
+  };
+
+  const handleSaveVersion = () => {
+    if (!selected) return;
+    const updated = addPromptVersion(selected, prompts[kind], versionNote.trim());
+    if (updated === selected) {
+      setNotice('当前提示词与最新版本相同，未保存');
+      return;
+    }
+    updateTemplates(templates.map(t => t.id === selected.id ? updated : t));
+    setVersionIndex(null);
+    setVersionNote('');
+    setNotice(`已保存为“${selected.name}”的第 ${updated.versions.length} 版`);
+  };
+
+  const handleRename = (name: string) => {
+    if (!selected) return;
+    updateTemplates(templates.map(t => t.id === selected.id ? { ...t, name } : t));
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (!isConfirmingDelete) {
+      setIsConfirmingDelete(true);
+      return;
+    }
+    updateTemplates(templates.filter(t => t.id !== selected.id));
+    if (defaultPromptIds[kind] === selected.id) onSetDefault(kind, undefined);
+    setIsConfirmingDelete(false);
+    setSelectedId(null);
+  };
+
+  const handleApply = () => {
+    if (!selected) return;
+    onApply(kind, shownContent);
+    setNotice(`已将“${selected.name}”第 ${shownIndex + 1} 版应用到当前项目`);
+  };
+
+  const handleExport = () => {
+    saveTextFile([serializePromptTemplates(templates)], 'prompt_templates.json', 'application/json');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) importInputRef.current.value = "";
+    if (!file) return;
+    try {
+      const { templates: merged, added, updated } = mergePromptTemplates(templates, parsePromptTemplates(await file.text()));
+      updateTemplates(merged);
+      setNotice(`导入完成: 新增 ${added} 个模板，更新 ${updated} 个模板`);
+    } catch (err: any) {
+      setNotice(`导入失败: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center" onMouseDown={onClose}>
+      <div
+        className="w-[900px] max-w-[95vw] h-[85vh] bg-white border border-[#CCCCCC] shadow-[3px_3px_10px_rgba(0,0,0,0.25)] flex flex-col text-xs text-[#333333]"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="px-3 py-2 border-b border-[#E5E5E5] flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <span className="font-semibold">提示词模板库</span>
+            {(Object.keys(PROMPT_KIND_LABELS) as PromptKind[]).map(k => (
+              <button
+                key={k}
+                onClick={() => switchKind(k)}
+                className={`px-2 py-0.5 border ${k === kind ? 'border-[#0078D7] bg-[#E5F1FB] text-[#0078D7]' : 'border-transparent hover:bg-[#F0F0F0]'}`}
+              >
+                {PROMPT_KIND_LABELS[k]}提示词
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="px-2 text-[#666666] hover:text-red-600" title="关闭">✕</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Template list */}
+          <div className="w-56 border-r border-[#E5E5E5] bg-[#F9F9F9] flex flex-col">
+            <div className="flex-1 overflow-y-auto scrollbar-win10 py-1">
+              {kindTemplates.length === 0 && <div className="px-3 py-2 text-[#999999]">暂无模板</div>}
+              {kindTemplates.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => selectTemplate(t.id)}
+                  className={`block w-full text-left px-3 py-1.5 ${t.id === selected?.id ? 'bg-[#CCE8FF]' : 'hover:bg-[#E5E5E5]'}`}
+                  title={t.name}
+                >
+                  <div className="truncate">{t.name || '(未命名)'}</div>
+                  <div className="text-[10px] text-[#888888]">
+                    {t.versions.length} 个版本
+                    {defaultPromptIds[kind] === t.id && <span className="ml-1 text-[#107C10]">· 项目默认</span>}
+                  </div>
+                </button>
+              ))}
+            </div>
+            <div className="p-2 border-t border-[#E5E5E5] flex flex-col gap-1">
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                  placeholder="新模板名称"
+                  className="flex-1 min-w-0 px-1 py-0.5 border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                />
+                <button
+                  onClick={handleCreate}
+                  disabled={!newName.trim()}
+                  className="px-2 py-0.5 bg-white border border-[#999999] hover:bg-[#E5E5E5] disabled:text-[#AAAAAA] transition-colors"
+                  title="用项目当前的提示词创建模板"
+                >
+                  新建
+                </button>
+              </div>
+              <div className="flex gap-1">
+                <input type="file" accept=".json" ref={importInputRef} onChange={handleImportFile} className="hidden" />
+                <button onClick={() => importInputRef.current?.click()} className="flex-1 py-0.5 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors">
+                  导入 JSON
+                </button>
+                <button onClick={handleExport} className="flex-1 py-0.5 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors" title="导出全部模板，可分享给团队">
+                  导出 JSON
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Template detail */}
+          {selected ? (
+            <div className="flex-1 flex flex-col min-w-0 p-3 gap-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(e) => handleRename(e.target.value)}
+                  className="flex-1 px-1 py-0.5 font-semibold border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                />
+                <button
+                  onClick={() => onSetDefault(kind, defaultPromptIds[kind] === selected.id ? undefined : selected.id)}
+                  className="px-3 py-0.5 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors"
+                  title="“恢复默认”和清空数据时会回到项目默认模板"
+                >
+                  {defaultPromptIds[kind] === selected.id ? '取消项目默认' : '设为项目默认'}
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className={`px-3 py-0.5 border transition-colors ${isConfirmingDelete ? 'bg-red-600 text-white border-red-700' : 'bg-white text-red-600 border-[#999999] hover:bg-[#FDE7E9]'}`}
+                >
+                  {isConfirmingDelete ? '确认删除?' : '删除模板'}
+                </button>
+              </div>
+
+              {/* Versions */}
+              <div className="flex gap-1 flex-wrap items-center">
+                <span className="text-[#666666]">版本:</span>
+                {selected.versions.map((v, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setVersionIndex(i)}
+                    className={`px-2 py-0.5 border ${i === shownIndex ? 'border-[#0078D7] bg-[#E5F1FB]' : 'border-[#D9D9D9] hover:bg-[#F0F0F0]'}`}
+                    title={`${formatSavedAt(v.savedAt)}${v.note ? ` · ${v.note}` : ''}`}
+                  >
+                    v{i + 1}
+                  </button>
+                )).reverse()}
+              </div>
+              <div className="text-[#888888]">
+                v{shownIndex + 1} · {formatSavedAt(selected.versions[shownIndex].savedAt)}
+                {selected.versions[shownIndex].note && ` · ${selected.versions[shownIndex].note}`}
+              </div>
+
+              {/* Diff */}
+              <div className="flex items-center gap-3">
+                <span className="text-[#666666]">对比:</span>
+                <label className="flex items-center gap-1 select-none cursor-pointer">
+                  <input type="radio" checked={compareTo === 'project'} onChange={() => setCompareTo('project')} className="accent-[#0078D7] w-3.5 h-3.5" />
+                  项目当前提示词 → 此版本
+                </label>
+                <label className="flex items-center gap-1 select-none cursor-pointer">
+                  <input type="radio" checked={compareTo === 'previous'} onChange={() => setCompareTo('previous')} className="accent-[#0078D7] w-3.5 h-3.5" />
+                  上一版本 → 此版本
+                </label>
+                {!hasChanges && <span className="text-[#107C10]">内容相同</span>}
+              </div>
+              <div className="flex-1 min-h-0 overflow-auto scrollbar-win10 border border-[#E5E5E5] font-mono text-[11px] leading-5">
+                {diff.map((line, i) => (
+                  <div
+                    key={i}
+                    className={`px-2 whitespace-pre-wrap ${line.type === 'added' ? 'bg-[#DFF6DD] text-[#107C10]' : line.type === 'removed' ? 'bg-[#FDE7E9] text-[#A4262C] line-through' : ''}`}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={versionNote}
+                  onChange={(e) => setVersionNote(e.target.value)}
+                  placeholder="版本说明 (可选)"
+                  className="flex-1 min-w-0 px-1 py-0.5 border border-[#999999] focus:border-[#0078D7] outline-none rounded-none"
+                />
+                <button
+                  onClick={handleSaveVersion}
+                  className="px-3 py-1 bg-white border border-[#999999] hover:bg-[#E5E5E5] transition-colors"
+                  title="把项目当前的提示词保存为此模板的新版本"
+                >
+                  保存当前提示词为新版本
+                </button>
+                <button
+                  onClick={handleApply}
+                  className="px-4 py-1 bg-[#0078D7] text-white hover:bg-[#006CC1] transition-colors border border-transparent"
+                >
+                  应用此版本到项目
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-[#999999]">在左侧新建或导入模板</div>
+          )}
+        </div>
+
+        <div className="px-3 py-2 border-t border-[#E5E5E5] bg-[#F9F9F9] flex justify-between items-center">
+          <span className={notice.startsWith('导入失败') ? 'text-red-600' : 'text-[#666666]'}>
+            {notice || '模板保存在本机，所有项目共用；每个项目可选择自己的默认模板'}
+          </span>
+          <button onClick={onClose} className="px-4 py-1 border border-[#CCCCCC] bg-white hover:bg-[#F0F0F0] transition-colors">关闭</button>
+        </div>
+      </div>
+    </div>
+  );
+};
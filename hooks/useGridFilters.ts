@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CleanerRow, ColumnCondition, GridView, TextConditionOperator } from '../types';
+import { isNumericColumn, parseFanCount } from '../services/rowSort';
+import { createConditionMatcher, isEmptyCondition, validateCondition } from '../services/rowFilter';
+
+// Column filters for the grid: value checkboxes, conditions (contains / regex / range), "show unique",
+// and the state of the header filter menu that edits them.
+
+type ValueStats = [string, number][];
+
+// Condition inputs while a filter menu is open. Range bounds are kept as typed ("1.2w") and parsed on OK.
+export interface ConditionDraft {
+  operator: TextConditionOperator;
+  value: string;
+  min: string;
+  max: string;
+}
+
+const EMPTY_CONDITION_DRAFT: ConditionDraft = { operator: 'contains', value: '', min: '', max: '' };
+
+const toConditionDraft = (condition?: ColumnCondition): ConditionDraft => {
+  if (!condition) return EMPTY_CONDITION_DRAFT;
+  if (condition.kind === 'range') {
+    return { ...EMPTY_CONDITION_DRAFT, min: condition.min?.toString() ?? '', max: condition.max?.toString() ?? '' };
+  }
+  return { ...EMPTY_CONDITION_DRAFT, operator: condition.operator, value: condition.value };
+};
+
+// Numeric columns get a min–max range, all other columns a text condition. An empty draft clears the condition.
+const fromConditionDraft = (column: string, draft: ConditionDraft): { condition: ColumnCondition | null; error: string | null } => {
+  let condition: ColumnCondition;
+  if (isNumericColumn(column)) {
+    const min = draft.min.trim() ? parseFanCount(draft.min) : null;
+    const max = draft.max.trim() ? parseFanCount(draft.max) : null;
+    if ((draft.min.trim() && min === null) || (draft.max.trim() && max === null)) {
+      return { condition: null, error: '请输入数字，如 5000、1.2w 或 3万' };
+    }
+    condition = { kind: 'range', min, max };
+  } else {
+    condition = { kind: 'text', operator: draft.operator, value: draft.value };
+  }
+  if (isEmptyCondition(condition)) return { condition: null, error: null };
+  const error = validateCondition(condition);
+  return error ? { condition: null, error } : { condition, error: null };
+};
+
+// Trim whitespace so "123" and "123 " are the same value; empty cells are grouped as (空白)
+const normalizeCellValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '(空白)';
+  const trimmed = String(value).trim();
+  return trimmed === '' ? '(空白)' : trimmed;
+};
+
+export const useGridFilters = (data: CleanerRow[]) => {
+  // openFilterHeader: Which column's menu is currently open (null = none)
+  const [openFilterHeader, setOpenFilterHeader] = useState<string | null>(null);
+
+  // activeFilters: Map of 'Column Name' -> Set of allowed values (Regular checkboxes)
+  const [activeFilters, setActiveFilters] = useState<Record<string, Set<string>>>({});
+
+  // uniqueColumns: Set of columns that are currently in "Show Unique / Deduplicate" mode.
+  // Logic: A row is shown only if its value in these columns has NOT been seen before (Strict Cleaning).
+  const [uniqueColumns, setUniqueColumns] = useState<Set<string>>(new Set());
+
+  // conditions: Map of 'Column Name' -> condition filter (contains / not contains / regex / numeric range)
+  const [conditions, setConditions] = useState<Record<string, ColumnCondition>>({});
+
+  // tempFilterSelection: Used while the menu is open (before clicking OK)
+  const [tempFilterSelection, setTempFilterSelection] = useState<Set<string>>(new Set());
+
+  // filterSearch: narrows the value list inside the open filter menu
+  const [filterSearch, setFilterSearch] = useState('');
+  const [conditionDraft, setConditionDraft] = useState<ConditionDraft>(EMPTY_CONDITION_DRAFT);
+  const [conditionError, setConditionError] = useState('');
+
+  const filterMenuRef = useRef<HTMLDivElement>(null);
+
+  // Clicking outside the filter menu closes it without applying
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (filterMenuRef.current && !filterMenuRef.current.contains(event.target as Node)) {
+        setOpenFilterHeader(null);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  // 1. Calculate Unique Values and Counts for a specific column.
+  // Results are cached per data version, so reopening a menu or applying a filter doesn't rescan every row.
+  const statsCache = useMemo(() => new Map<string, ValueStats>(), [data]);
+
+  const getUniqueStats = (column: string): ValueStats => {
+    const cached = statsCache.get(column);
+    if (cached) return cached;
+
+    const stats = new Map<string, number>();
+    data.forEach(row => {
+      const val = normalizeCellValue(row[column]);
+      stats.set(val, (stats.get(val) || 0) + 1);
+    });
+
+    const sorted = Array.from(stats.entries()).sort((a, b) => {
+       // 1. Sort by Count Descending (High frequency first)
+       const countDiff = b[1] - a[1];
+       if (countDiff !== 0) return countDiff;
+
+       // 2. Tie-break: Sort by Value Ascending
+       if (a[0] === '(空白)') return 1; // Put blanks at the bottom if counts are equal
+       if (b[0] === '(空白)') return -1;
+       return a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0; // localeCompare is too slow for 50k+ distinct values
+    });
+    statsCache.set(column, sorted);
+    return sorted;
+  };
+
+  // 2. Open Filter Menu
+  const handleFilterClick = (header: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    // If opening a new menu, initialize temp selection
+    if (openFilterHeader !== header) {
+      const allValues = getUniqueStats(header).map(s => s[0]);
+
+      // If a filter already exists for this column, load it. Otherwise, select all.
+      setTempFilterSelection(new Set(activeFilters[header] || allValues));
+      setFilterSearch('');
+      setConditionDraft(toConditionDraft(conditions[header]));
+      setConditionError('');
+      setOpenFilterHeader(header);
+    } else {
+      setOpenFilterHeader(null);
+    }
+  };
+
+  // 3. Toggle a specific value in the temporary selection
+  const toggleFilterValue = (val: string) => {
+    const newSet = new Set(tempFilterSelection);
+    if (newSet.has(val)) {
+      newSet.delete(val);
+    } else {
+      newSet.add(val);
+    }
+    setTempFilterSelection(newSet);
+  };
+
+  // 4. Toggle Select All
+  const toggleSelectAll = (allValues: string[]) => {
+    setTempFilterSelection(tempFilterSelection.size === allValues.length ? new Set() : new Set(allValues));
+  };
+
+  // 5. Apply Filter (Click OK)
+  const applyFilter = () => {
+    if (!openFilterHeader) return;
+
+    // Invalid conditions (bad regex, min > max) keep the menu open with the error shown
+    const { condition, error } = fromConditionDraft(openFilterHeader, conditionDraft);
+    if (error) {
+      setConditionError(error);
+      return;
+    }
+    const newConditions = { ...conditions };
+    if (condition) {
+      newConditions[openFilterHeader] = condition;
+    } else {
+      delete newConditions[openFilterHeader];
+    }
+    setConditions(newConditions);
+
+    const allValues = getUniqueStats(openFilterHeader).map(s => s[0]);
+    const newFilters = { ...activeFilters };
+
+    // If all values are selected, remove the explicit value filter for this column
+    if (tempFilterSelection.size === allValues.length) {
+      delete newFilters[openFilterHeader];
+    } else {
+      newFilters[openFilterHeader] = tempFilterSelection;
+    }
+
+    setActiveFilters(newFilters);
+    // Note: hitting OK confirms the value checkboxes. It does NOT affect the Unique Toggle (which applies instantly/independently).
+    setOpenFilterHeader(null);
+  };
+
+  // 6. Handle "Deduplicate" / "Show Unique" Button
+  const handleToggleUniqueMode = (header: string) => {
+    const newUniqueSet = new Set(uniqueColumns);
+    if (newUniqueSet.has(header)) {
+      newUniqueSet.delete(header);
+    } else {
+      newUniqueSet.add(header);
+      // Clear the column's value filter so the unique list is shown in full
+      const newFilters = { ...activeFilters };
+      delete newFilters[header];
+      setActiveFilters(newFilters);
+    }
+    setUniqueColumns(newUniqueSet);
+    setOpenFilterHeader(null);
+  };
+
+  // Saved views: the filter part of a view, and restoring it (null clears every filter)
+  const getViewFilters = (): Pick<GridView, 'valueFilters' | 'conditions' | 'uniqueColumns'> => ({
+    valueFilters: Object.fromEntries(Object.entries(activeFilters).map(([col, values]) => [col, Array.from(values)])),
+    conditions: { ...conditions },
+    uniqueColumns: Array.from(uniqueColumns)
+  });
+
+  const restoreFilters = (view: GridView | null) => {
+    setActiveFilters(view ? Object.fromEntries(Object.entries(view.valueFilters).map(([col, values]) => [col, new Set(values)])) : {});
+    setConditions(view ? { ...view.conditions } : {});
+    setUniqueColumns(new Set(view?.uniqueColumns || []));
+  };
+
+  const activeFilterCount = new Set([...Object.keys(activeFilters), ...Object.keys(conditions), ...uniqueColumns]).size;
+
+  // The filter pipeline as a function of the rows, rebuilt only when a filter changes
+  const filterRows = useMemo(() => {
+    // Condition matchers are built once per filter change, not once per pass
+    const conditionMatchers = Object.entries(conditions).map(([col, condition]) => createConditionMatcher(col, condition));
+
+    return (rows: CleanerRow[]): CleanerRow[] => {
+      // 1. Apply Standard Value Filters (Checkboxes)
+      let result = rows.filter(row => Object.keys(activeFilters).every(colKey => {
+        const allowedValues = activeFilters[colKey];
+        return !allowedValues || allowedValues.has(normalizeCellValue(row[colKey]));
+      }));
+
+      // 2. Apply Condition Filters (contains / regex / range)
+      if (conditionMatchers.length > 0) {
+        result = result.filter(row => conditionMatchers.every(matches => matches(row)));
+      }
+
+      // 3. Apply Deduplication (Strict Unique Filter)
+      // A row is hidden if its value in ANY unique column was already seen, so the result has no duplicate
+      // IDs and no duplicate phones. Only kept rows add their values to the seen sets.
+      if (uniqueColumns.size > 0) {
+        const seenMaps: Record<string, Set<string>> = {};
+        uniqueColumns.forEach(col => { seenMaps[col] = new Set(); });
+
+        result = result.filter(row => {
+          const values = Array.from(uniqueColumns, col => [col, normalizeCellValue(row[col])] as const);
+          if (values.some(([col, val]) => seenMaps[col].has(val))) return false;
+          values.forEach(([col, val]) => seenMaps[col].add(val));
+          return true;
+        });
+      }
+
+      return result;
+    };
+  }, [activeFilters, conditions, uniqueColumns]);
+
+  const clearFilters = () => {
+    setActiveFilters({});
+    setConditions({});
+    setUniqueColumns(new Set());
+  };
+
+  return {
+    openFilterHeader, setOpenFilterHeader,
+    activeFilters, conditions, uniqueColumns,
+    tempFilterSelection,
+    filterSearch, setFilterSearch,
+    conditionDraft, setConditionDraft,
+    conditionError,
+    filterMenuRef,
+    getUniqueStats,
+    handleFilterClick,
+    toggleFilterValue,
+    toggleSelectAll,
+    applyFilter,
+    handleToggleUniqueMode,
+    getViewFilters,
+    restoreFilters,
+    activeFilterCount,
+    filterRows,
+    clearFilters
+  };
+};
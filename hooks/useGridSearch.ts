@@ -0,0 +1,81 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { CleanerRow } from '../types';
+import { findMatches, SearchOptions } from '../services/rowSearch';
+
+// Global grid search over the rows currently shown (after filters and sort), so "next" follows the
+// on-screen order. `revealRow` scrolls a row index of `rows` into view.
+
+export const useGridSearch = (rows: CleanerRow[], headers: string[], revealRow: (rowIndex: number) => void) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ pinyin: false, fuzzy: false });
+  const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
+  const [isConfirmingSearchDelete, setIsConfirmingSearchDelete] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // Typing stays responsive while a large table is being searched
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+
+  const searchMatches = useMemo(
+    () => findMatches(rows, headers.filter(h => h !== '状态'), deferredSearchQuery, searchOptions),
+    [rows, headers, deferredSearchQuery, searchOptions]
+  );
+  const matchedCellKeys = useMemo(() => new Set(searchMatches.map(m => `${m.rowId}|${m.column}`)), [searchMatches]);
+  const matchedRows = useMemo(() => {
+    const ids = new Set(searchMatches.map(m => m.rowId));
+    return rows.filter(row => ids.has(row._internal_id!));
+  }, [rows, searchMatches]);
+  const activeMatch = searchMatches[Math.min(currentMatchIndex, searchMatches.length - 1)];
+
+  useEffect(() => {
+    setCurrentMatchIndex(0);
+    setIsConfirmingSearchDelete(false);
+  }, [deferredSearchQuery, searchOptions]);
+
+  // Auto-cancel delete confirmation after 3 seconds
+  useEffect(() => {
+    if (isConfirmingSearchDelete) {
+      const timer = setTimeout(() => setIsConfirmingSearchDelete(false), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [isConfirmingSearchDelete]);
+
+  // Ctrl+F jumps to the grid search box instead of the browser's find (which can't see virtualized rows)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        searchInputRef.current?.focus();
+        searchInputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Move to a match (wrapping around) and bring its row into view
+  const goToMatch = (index: number) => {
+    if (searchMatches.length === 0) return;
+    const wrapped = (index + searchMatches.length) % searchMatches.length;
+    setCurrentMatchIndex(wrapped);
+    revealRow(searchMatches[wrapped].rowIndex);
+  };
+
+  // Background for cells hit by the search; the current match is highlighted more strongly
+  const getSearchHighlight = (row: CleanerRow, column: string) => {
+    if (!matchedCellKeys.has(`${row._internal_id}|${column}`)) return '';
+    const isActive = activeMatch && activeMatch.rowId === row._internal_id && activeMatch.column === column;
+    return isActive ? 'bg-[#FFD666]' : 'bg-[#FFF4CE]';
+  };
+
+  return {
+    searchQuery, setSearchQuery,
+    searchOptions, setSearchOptions,
+    deferredSearchQuery,
+    currentMatchIndex,
+    isConfirmingSearchDelete, setIsConfirmingSearchDelete,
+    searchInputRef,
+    searchMatches,
+    matchedRows,
+    goToMatch,
+    getSearchHighlight
+  };
+};
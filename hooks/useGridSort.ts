@@ -0,0 +1,31 @@
+import React, { useState } from 'react';
+import { SortKey } from '../types';
+
+// Multi-key sort for the grid, highest priority first. Shift+click on a header adds a secondary key.
+
+export const useGridSort = () => {
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+
+  // Click cycles ascending -> descending -> off.
+  // Without Shift the column becomes the only key; with Shift it is added to (or cycled within) the existing keys.
+  const handleSortClick = (header: string, e: React.MouseEvent) => {
+    const existing = sortKeys.find(k => k.column === header);
+    const cycled: SortKey | null = !existing
+      ? { column: header, direction: 'asc' }
+      : existing.direction === 'asc' ? { column: header, direction: 'desc' } : null;
+
+    if (e.shiftKey) {
+      if (!existing) {
+        setSortKeys([...sortKeys, cycled!]);
+      } else {
+        setSortKeys(cycled ? sortKeys.map(k => (k.column === header ? cycled : k)) : sortKeys.filter(k => k.column !== header));
+      }
+    } else {
+      // A plain click on one of several keys restarts the sort from that column
+      const isOnlyKey = existing && sortKeys.length === 1;
+      setSortKeys(isOnlyKey ? (cycled ? [cycled] : []) : [{ column: header, direction: 'asc' }]);
+    }
+  };
+
+  return { sortKeys, setSortKeys, handleSortClick };
+};
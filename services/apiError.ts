@@ -0,0 +1,23 @@
+// Custom Error class to transport raw response to UI
+export class ApiError extends Error {
+  rawResponse?: string;
+  status?: number; // HTTP status, used to decide whether a request is worth retrying
+  retryAfterMs?: number; // Server-provided Retry-After hint, if any
+  constructor(message: string, rawResponse?: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.rawResponse = rawResponse;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Parse a Retry-After header (seconds or HTTP date) into milliseconds
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+};
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from './apiError';
+import { isRetryableError, runBatches, withRetry } from './batchRunner';
+
+const FAST_RETRY = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and network failures only', () => {
+    expect(isRetryableError(new ApiError('rate', '', 429))).toBe(true);
+    expect(isRetryableError(new ApiError('server', '', 503))).toBe(true);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new ApiError('bad key', '', 401))).toBe(false);
+    expect(isRetryableError(new Error('bad schema'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient errors until the task succeeds', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new ApiError('rate', '', 429))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue('done');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(withRetry(task, 'test', FAST_RETRY)).resolves.toBe('done');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const task = vi.fn().mockRejectedValue(new ApiError('server', '', 500));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(withRetry(task, 'test', FAST_RETRY)).rejects.toThrow('server');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry permanent errors', async () => {
+    const task = vi.fn().mockRejectedValue(new ApiError('bad key', '', 401));
+
+    await expect(withRetry(task, 'test', FAST_RETRY)).rejects.toThrow('bad key');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least as long as the server asks', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const task = vi.fn()
+      .mockRejectedValueOnce(new ApiError('rate', '', 429, 4000))
+      .mockResolvedValue('done');
+
+    const promise = withRetry(task, 'test', { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 10000 });
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toBe('done');
+  });
+});
+
+describe('runBatches', () => {
+  it('keeps results in input order and collects failures instead of aborting', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { results, failures, cancelled } = await runBatches(
+      [1, 2, 3, 4],
+      async (n) => {
+        if (n === 3) throw new Error('boom');
+        return n * 10;
+      },
+      { concurrency: 2, context: 'test', retry: FAST_RETRY }
+    );
+
+    expect(results).toEqual([10, 20, undefined, 40]);
+    expect(failures).toEqual([{ index: 2, item: 3, error: 'boom' }]);
+    expect(cancelled).toEqual([]);
+  });
+
+  it('reports unstarted items as cancelled after an abort', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const controller = new AbortController();
+    const { results, cancelled } = await runBatches(
+      ['a', 'b', 'c'],
+      async (item) => {
+        controller.abort();
+        return item;
+      },
+      { concurrency: 1, context: 'test', signal: controller.signal }
+    );
+
+    expect(results).toEqual(['a', undefined, undefined]);
+    expect(cancelled.map(c => c.index)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,133 @@
+import { ApiError } from "./apiError";
+
+// Shared worker pool + retry helpers for the batched AI jobs (extraction and filtering).
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 8;
+
+export interface BatchFailure<T> {
+  index: number;
+  item: T;
+  error: string;
+}
+
+export interface BatchRunResult<T, R> {
+  results: (R | undefined)[]; // Same order as the input; undefined where the batch failed or was cancelled
+  failures: BatchFailure<T>[];
+  cancelled: { index: number; item: T }[]; // Never started, or aborted mid-request
+}
+
+// fetch() and our own abortable sleep both reject with a DOMException named "AbortError"
+export const isAbortError = (error: unknown): boolean =>
+  !!error && typeof error === 'object' && (error as Error).name === 'AbortError';
+
+const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) { reject(createAbortError()); return; }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Rate limits, server errors and dropped connections are transient; anything else (bad key, bad schema) is not
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof ApiError) {
+    return error.status === 429 || (error.status !== undefined && error.status >= 500);
+  }
+  // fetch() rejects with TypeError on network failures
+  return error instanceof TypeError;
+};
+
+export const withRetry = async <R>(
+  task: () => Promise<R>,
+  context: string,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  signal?: AbortSignal
+): Promise<R> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw createAbortError();
+    try {
+      return await task();
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      if (attempt >= options.maxRetries || !isRetryableError(error)) throw error;
+
+      // Exponential backoff with jitter, but honour the server's Retry-After when it is longer
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      const jittered = backoff / 2 + Math.random() * backoff / 2;
+      const serverHint = error instanceof ApiError ? error.retryAfterMs || 0 : 0;
+      const delay = Math.min(options.maxDelayMs, Math.max(jittered, serverHint));
+
+      console.warn(`[${context}] Attempt ${attempt + 1} failed, retrying in ${Math.round(delay)}ms...`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+// Run `worker` over `items` with at most `concurrency` in flight. Each item is retried on transient errors;
+// items that still fail are collected instead of aborting the whole run. Aborting `signal` stops new items
+// from starting and reports everything unfinished as cancelled, keeping the results that already arrived.
+export const runBatches = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number, signal?: AbortSignal) => Promise<R>,
+  options: {
+    concurrency?: number;
+    retry?: RetryOptions;
+    context: string;
+    signal?: AbortSignal;
+    onProgress?: (completed: number, total: number) => void;
+  }
+): Promise<BatchRunResult<T, R>> => {
+  const { signal } = options;
+  const concurrency = Math.max(1, Math.min(MAX_CONCURRENCY, options.concurrency || DEFAULT_CONCURRENCY));
+  const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+  const failures: BatchFailure<T>[] = [];
+  const settled = new Array<boolean>(items.length).fill(false);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      try {
+        results[index] = await withRetry(() => worker(items[index], index, signal), `${options.context} #${index + 1}`, options.retry, signal);
+        settled[index] = true;
+      } catch (error) {
+        if (isAbortError(error)) break;
+        settled[index] = true;
+        console.error(`[${options.context}] Batch ${index + 1} failed:`, error);
+        failures.push({ index, item: items[index], error: (error as Error).message || String(error) });
+      }
+      completed++;
+      if (options.onProgress) options.onProgress(completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker));
+
+  failures.sort((a, b) => a.index - b.index);
+  const cancelled = items
+    .map((item, index) => ({ index, item }))
+    .filter(({ index }) => !settled[index]);
+
+  return { results, failures, cancelled };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { SOURCE_COLUMN } from '../types';
+import { applyColumnMapping, IGNORE_COLUMN, KEEP_COLUMN, suggestMapping } from './columnMapping';
+
+describe('suggestMapping', () => {
+  it('matches synonyms exactly first, then headers that contain one', () => {
+    expect(suggestMapping(['昵称', '达人粉丝数(万)', '电话', '微信', '状态', '备注'], {})).toEqual({
+      昵称: '用户名',
+      '达人粉丝数(万)': '粉丝数',
+      电话: '联系方式',
+      微信: '联系方式',
+      状态: IGNORE_COLUMN,
+      备注: KEEP_COLUMN
+    });
+  });
+
+  it('prefers remembered choices and never assigns a single-source field twice', () => {
+    expect(suggestMapping(['Remark', '昵称', '名称'], { remark: '简介' })).toEqual({
+      Remark: '简介',
+      昵称: '用户名',
+      名称: KEEP_COLUMN
+    });
+  });
+});
+
+describe('applyColumnMapping', () => {
+  const headers = ['昵称', '电话', '微信', '状态', '备注', SOURCE_COLUMN];
+  const mapping = {
+    昵称: '用户名', 电话: '联系方式', 微信: '联系方式', 状态: IGNORE_COLUMN, 备注: KEEP_COLUMN, [SOURCE_COLUMN]: KEEP_COLUMN
+  };
+
+  it('joins several contact columns and keeps unmapped ones under their own header', () => {
+    const [row] = applyColumnMapping(headers, [['示例物流', '13812345678', ' abc_123 ', '已处理', '老客户', '旧表']], mapping, '新表');
+
+    expect(row).toMatchObject({ 用户名: '示例物流', 联系方式: '13812345678 / abc_123', 备注: '老客户', checkStatus: 'unverified' });
+    expect(row).not.toHaveProperty('状态');
+    // The import label wins over a kept column that happens to be named 来源
+    expect(row[SOURCE_COLUMN]).toBe('新表');
+  });
+
+  it('skips blank rows', () => {
+    expect(applyColumnMapping(headers, [['', ' ', null], []], mapping)).toEqual([]);
+  });
+});
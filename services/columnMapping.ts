@@ -0,0 +1,133 @@
+import { CleanerRow, SOURCE_COLUMN } from "../types";
+
+// Maps spreadsheet columns onto the standard CleanerRow fields on import.
+// Exports from other tools use their own headers ("昵称", "粉丝", "电话"), which would otherwise land in stray
+// columns the grid never shows. Suggestions come from remembered choices first, then a synonym table.
+
+export const STANDARD_FIELDS = ['用户名', '抖音号', '粉丝数', '简介', '联系方式'] as const;
+
+// Special targets besides the standard fields
+export const KEEP_COLUMN = '__keep__'; // Store under the original header (not shown in the grid)
+export const IGNORE_COLUMN = '__ignore__';
+
+// Source header -> target. Keyed by name so one mapping covers several sheets with overlapping headers.
+export type ColumnMapping = Record<string, string>;
+
+const FIELD_SYNONYMS: Record<string, string[]> = {
+  用户名: ['用户名', '昵称', '名称', '账号名称', '账号名', '达人昵称', '达人', '博主', '作者', 'name', 'nickname', 'username'],
+  抖音号: ['抖音号', '抖音id', '抖音账号', '账号id', '账号', 'uid', 'id', 'douyinid'],
+  粉丝数: ['粉丝数', '粉丝', '粉丝量', '粉丝数量', 'fans', 'followers'],
+  简介: ['简介', '个人简介', '签名', '个性签名', '描述', '介绍', 'bio', 'description', 'signature'],
+  联系方式: ['联系方式', '联系电话', '电话', '手机', '手机号', '微信', '微信号', '邮箱', 'qq', 'phone', 'mobile', 'wechat', 'email', 'contact']
+};
+
+// Several source columns may fill 联系方式 (e.g. 电话 and 微信); their values are joined
+const MULTI_SOURCE_FIELDS = new Set(['联系方式']);
+const MULTI_SOURCE_SEPARATOR = ' / ';
+
+// Internal row fields a kept column must never overwrite
+const RESERVED_KEYS = new Set(['_internal_id', 'checkStatus', SOURCE_COLUMN]);
+
+const MAPPINGS_STORAGE_KEY = 'import_column_mappings';
+
+export const normalizeHeader = (header: string) =>
+  header.normalize("NFKC").toLowerCase().replace(/[\s\p{P}\p{S}]/gu, "");
+
+// --- Remembered Mappings ---
+
+// Normalized source header -> target, from earlier imports
+export const loadRememberedMappings = (): Record<string, string> => {
+  try {
+    const raw = localStorage.getItem(MAPPINGS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn("[ColumnMapping] Failed to parse saved mappings.", e);
+    return {};
+  }
+};
+
+export const rememberMappings = (mapping: ColumnMapping) => {
+  const remembered = loadRememberedMappings();
+  Object.entries(mapping).forEach(([header, target]) => {
+    const key = normalizeHeader(header);
+    if (key) remembered[key] = target;
+  });
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(remembered));
+};
+
+// --- Suggestions ---
+
+export const isStandardField = (target: string) => (STANDARD_FIELDS as readonly string[]).includes(target);
+
+// sourceHeaders should be unique (the union of headers across the selected sheets)
+export const suggestMapping = (sourceHeaders: string[], remembered: Record<string, string> = loadRememberedMappings()): ColumnMapping => {
+  const mapping: string[] = sourceHeaders.map(() => '');
+  const taken = new Set<string>();
+  const assign = (i: number, target: string) => {
+    mapping[i] = target;
+    if (isStandardField(target) && !MULTI_SOURCE_FIELDS.has(target)) taken.add(target);
+  };
+  const isFree = (field: string) => MULTI_SOURCE_FIELDS.has(field) || !taken.has(field);
+  const keys = sourceHeaders.map(normalizeHeader);
+
+  // 1. Remembered choices and the app's own export columns
+  keys.forEach((key, i) => {
+    if (key === normalizeHeader('状态')) assign(i, IGNORE_COLUMN); // Status is reset on import
+    else if (remembered[key] && (!isStandardField(remembered[key]) || isFree(remembered[key]))) assign(i, remembered[key]);
+  });
+
+  // 2. Exact synonym matches, then 3. headers containing a synonym ("达人粉丝数(万)")
+  const matchers: ((key: string, synonym: string) => boolean)[] = [
+    (key, synonym) => key === synonym,
+    (key, synonym) => synonym.length >= 2 && key.includes(synonym)
+  ];
+  matchers.forEach(matches => {
+    keys.forEach((key, i) => {
+      if (mapping[i] || !key) return;
+      const field = STANDARD_FIELDS.find(f => isFree(f) && FIELD_SYNONYMS[f].some(s => matches(key, normalizeHeader(s))));
+      if (field) assign(i, field);
+    });
+  });
+
+  // Anything unrecognized is kept under its own name rather than dropped
+  return Object.fromEntries(sourceHeaders.map((header, i) => [header, mapping[i] || KEEP_COLUMN]));
+};
+
+// --- Apply ---
+
+const isBlank = (val: unknown) => val === null || val === undefined || String(val).trim() === "";
+
+// With sourceLabel, each row records where it came from in the 来源 column
+export const applyColumnMapping = (
+  sourceHeaders: string[],
+  dataRows: any[][],
+  mapping: ColumnMapping,
+  sourceLabel?: string
+): CleanerRow[] => {
+  const stamp = Date.now();
+  const result: CleanerRow[] = [];
+  dataRows.forEach((rowArr, i) => {
+    if (!rowArr || rowArr.every(isBlank)) return;
+    const row: CleanerRow = {
+      _internal_id: stamp + i + Math.random(),
+      checkStatus: 'unverified',
+      用户名: '', 抖音号: '', 粉丝数: '', 简介: '', 联系方式: ''
+    };
+    sourceHeaders.forEach((header, colIndex) => {
+      const target = mapping[header] || KEEP_COLUMN;
+      const val = rowArr[colIndex];
+      if (target === IGNORE_COLUMN) return;
+      if (target === KEEP_COLUMN) {
+        if (header && !RESERVED_KEYS.has(header)) row[header] = val;
+        return;
+      }
+      if (isBlank(val)) return;
+      row[target] = MULTI_SOURCE_FIELDS.has(target) && !isBlank(row[target])
+        ? `${row[target]}${MULTI_SOURCE_SEPARATOR}${String(val).trim()}`
+        : val;
+    });
+    if (sourceLabel) row[SOURCE_COLUMN] = sourceLabel;
+    result.push(row);
+  });
+  return result;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { CONTACT_CHECK_COLUMN } from '../types';
+import { applyParsedContacts, extractLandlines, extractPhones, extractQqNumbers, extractWechatIds, hasParsedContacts, parseContacts } from './contactParser';
+import { makeRow } from './testRows';
+
+describe('extractPhones', () => {
+  it('finds mobiles written with separators, full-width digits or +86', () => {
+    expect(extractPhones('📞138-1234-5678，备用 +86 139 1234 5678')).toEqual(['13812345678', '13912345678']);
+    expect(extractPhones('电话：１３７１２３４５６７８')).toEqual(['13712345678']);
+  });
+
+  it('keeps numbers that are only separated by a space apart', () => {
+    expect(extractPhones('13800138000 13900139000')).toEqual(['13800138000', '13900139000']);
+    expect(extractPhones('联系 13800138000 138 0013 8001')).toEqual(['13800138000', '13800138001']);
+    expect(extractPhones('电话 13800138000 2')).toEqual(['13800138000']);
+  });
+
+  it('rejects numbers with an unissued prefix or the wrong length', () => {
+    expect(extractPhones('12012345678 1381234567 138123456789')).toEqual([]);
+  });
+});
+
+describe('extractLandlines', () => {
+  it('returns area code and number', () => {
+    expect(extractLandlines('(010)6234 5678 / 0755-87654321')).toEqual(['010-62345678', '0755-87654321']);
+    expect(extractLandlines('0755-8765 4321 13800138000')).toEqual(['0755-87654321']);
+  });
+});
+
+describe('extractWechatIds', () => {
+  it('reads IDs after explicit markers, with or without a colon', () => {
+    expect(extractWechatIds('微信: abc_123')).toEqual(['abc_123']);
+    expect(extractWechatIds('微信号abc12345')).toEqual(['abc12345']);
+    expect(extractWechatIds('VX：Logi_Star')).toEqual(['logi_star']);
+    expect(extractWechatIds('V信 abc123')).toEqual(['abc123']);
+    expect(extractWechatIds('wx:abc123')).toEqual(['abc123']);
+  });
+
+  it('reads IDs after a one-letter marker only when a colon or space follows it', () => {
+    expect(extractWechatIds('薇 abc123')).toEqual(['abc123']);
+    expect(extractWechatIds('加v: abc123')).toEqual(['abc123']);
+    expect(extractWechatIds('V abc123')).toEqual(['abc123']);
+  });
+
+  it('ignores ordinary text that merely contains a marker letter', () => {
+    expect(extractWechatIds('vip888888 会员专享')).toEqual([]);
+    expect(extractWechatIds('微商abc12345')).toEqual([]);
+    expect(extractWechatIds('devxabc123')).toEqual([]);
+    expect(extractWechatIds('微abc123')).toEqual([]);
+  });
+
+  it('does not cut an over-long ID into a shorter one', () => {
+    expect(extractWechatIds('微信: a123456789012345678901234')).toEqual([]);
+  });
+});
+
+describe('extractQqNumbers', () => {
+  it('reads numbers after QQ markers', () => {
+    expect(extractQqNumbers('QQ: 12345678 扣扣号 987654')).toEqual(['12345678', '987654']);
+  });
+});
+
+describe('parseContacts', () => {
+  it('reports marked numbers that are neither mobiles nor landlines', () => {
+    const parsed = parseContacts('手机: 1381234567 微信: abc_123');
+    expect(parsed.手机).toEqual([]);
+    expect(parsed.微信).toEqual(['abc_123']);
+    expect(parsed.invalid).toEqual(['1381234567']);
+  });
+});
+
+describe('applyParsedContacts', () => {
+  it('writes the structured fields from 联系方式 and 简介', () => {
+    const parsed = applyParsedContacts(makeRow(1, { 联系方式: '13812345678', 简介: '微信: abc_123 邮箱 Sales@Example.com' }));
+    expect(parsed).toMatchObject({ 手机: '13812345678', 微信: 'abc_123', 邮箱: 'sales@example.com', [CONTACT_CHECK_COLUMN]: '' });
+    expect(hasParsedContacts(parsed)).toBe(true);
+  });
+
+  it('does not flag a row whose mobiles sit next to each other', () => {
+    const parsed = applyParsedContacts(makeRow(1, { 联系方式: '电话 13800138000 13900139000' }));
+    expect(parsed).toMatchObject({ 手机: '13800138000 / 13900139000', [CONTACT_CHECK_COLUMN]: '' });
+  });
+
+  it('flags rows without any usable contact', () => {
+    const parsed = applyParsedContacts(makeRow(1, { 简介: 'vip888888 专业美线' }));
+    expect(parsed[CONTACT_CHECK_COLUMN]).toBe('无可用联系方式');
+    expect(parsed.微信).toBe('');
+  });
+});
@@ -0,0 +1,120 @@
+import { CleanerRow, CONTACT_CHECK_COLUMN } from "../types";
+
+// Local (no AI) extraction of contact details from free text such as 联系方式 and 简介.
+// Bios write contacts in many shapes ("微信: abc_123", "V信 abc123", "薇 abc123", "📞138-1234-5678"), so the text is
+// normalized first (full-width -> half-width, separators inside phone-shaped digit groups removed).
+
+// Digit groups written the way one phone number is split: 3-4-4 mobiles ("+86 139 1234 5678") and area code +
+// number landlines ("0755-8765 4321"). Separators elsewhere are kept, so "13800138000 13900139000" stays two numbers.
+const SEPARATED_MOBILE = /(?<!\d)(?:\+?86[\s\-.]*)?1\d{2}[\s\-.]*\d{4}[\s\-.]*\d{4}(?!\d)/g;
+const SEPARATED_LANDLINE = /(?<!\d)0\d{2,3}[\s\-.]*\d{3,4}[\s\-.]*\d{4}(?!\d)/g;
+const DIGIT_SEPARATORS = /[\s\-.]+/g;
+
+const joinDigitGroups = (match: string) => match.replace(DIGIT_SEPARATORS, "");
+
+const normalizeContactText = (text: string) =>
+  text
+    .normalize("NFKC")
+    .replace(/\((0\d{2,3})\)/g, "$1") // "(010)1234 5678"
+    .replace(SEPARATED_MOBILE, joinDigitGroups)
+    .replace(SEPARATED_LANDLINE, joinDigitGroups);
+
+// Mainland mobile numbers, with or without the +86 prefix
+const PHONE_PATTERN = /(?<!\d)(?:\+?86)?(1\d{10})(?!\d)/g;
+
+// Number segments issued to carriers; "12x" or "110" shaped numbers are typos or not phones at all
+const VALID_MOBILE_PREFIX = /^1(?:3\d|4[5-9]|5[0-35-9]|6[2567]|7[0-8]|8\d|9[0-35-9])/;
+
+// Area code + 7-8 digit number; Beijing (010) and the 02x cities have 3-digit area codes, the rest 4
+const LANDLINE_PATTERN = /(?<!\d)(0(?:10|2\d|[3-9]\d{2}))([2-9]\d{6,7})(?!\d)/g;
+
+// Digits right after a phone marker, used to report numbers that are neither a mobile nor a landline
+const MARKED_NUMBER_PATTERN = /(?:电话|手机|热线|tel|phone|📞|☎️?|📱)\s*[:：]?\s*(\+?\d{5,15})/gi;
+
+// A WeChat ID is 6-20 chars, starts with a letter, and follows a marker. Explicit markers (微信 / vx / wx / V信)
+// may touch the ID; the one-letter shorthands 薇 / 微 / 威 / v need a colon or space after them, otherwise
+// "vip888888" or any word containing 微 would be read as an ID.
+const WECHAT_PATTERN = /(?:(?:微信号?|薇信|威信|v信|(?<![a-z0-9])(?:weixin|wechat|vx|wx))\s*[:：]?\s*|(?:[薇微威]|(?<![a-z0-9])v)(?:\s*[:：]\s*|\s+))([a-z][-_a-z0-9]{5,19})(?![-_a-z0-9])/gi;
+
+const QQ_PATTERN = /(?:qq|扣扣|企鹅)\s*号?\s*[:：]?\s*([1-9]\d{4,10})(?!\d)/gi;
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+export const extractPhones = (text: unknown): string[] => {
+  if (text === null || text === undefined) return [];
+  const normalized = normalizeContactText(String(text));
+  return unique(Array.from(normalized.matchAll(PHONE_PATTERN), m => m[1]).filter(p => VALID_MOBILE_PREFIX.test(p)));
+};
+
+// Returned as "区号-号码", e.g. "0755-12345678"
+export const extractLandlines = (text: unknown): string[] => {
+  if (text === null || text === undefined) return [];
+  const normalized = normalizeContactText(String(text));
+  return unique(Array.from(normalized.matchAll(LANDLINE_PATTERN), m => `${m[1]}-${m[2]}`));
+};
+
+export const extractWechatIds = (text: unknown): string[] => {
+  if (text === null || text === undefined) return [];
+  const normalized = String(text).normalize("NFKC");
+  return unique(Array.from(normalized.matchAll(WECHAT_PATTERN), m => m[1].toLowerCase()));
+};
+
+export const extractQqNumbers = (text: unknown): string[] => {
+  if (text === null || text === undefined) return [];
+  const normalized = normalizeContactText(String(text));
+  return unique(Array.from(normalized.matchAll(QQ_PATTERN), m => m[1]));
+};
+
+export const extractEmails = (text: unknown): string[] => {
+  if (text === null || text === undefined) return [];
+  const normalized = String(text).normalize("NFKC");
+  return unique(Array.from(normalized.matchAll(EMAIL_PATTERN), m => m[0].toLowerCase()));
+};
+
+// --- Structured Row Fields ---
+
+export interface ParsedContacts {
+  手机: string[];
+  座机: string[];
+  微信: string[];
+  QQ: string[];
+  邮箱: string[];
+  invalid: string[]; // Numbers after a phone marker that failed validation, e.g. 10 digits or an unknown prefix
+}
+
+export const parseContacts = (text: unknown): ParsedContacts => {
+  const mobiles = extractPhones(text);
+  const landlines = extractLandlines(text);
+  const accepted = new Set([...mobiles, ...landlines.map(l => l.replace("-", ""))]);
+  const normalized = text === null || text === undefined ? "" : normalizeContactText(String(text));
+  const marked = Array.from(normalized.matchAll(MARKED_NUMBER_PATTERN), m => m[1].replace(/^\+?86(?=1\d{10}$)/, ""));
+  return {
+    手机: mobiles,
+    座机: landlines,
+    微信: extractWechatIds(text),
+    QQ: extractQqNumbers(text),
+    邮箱: extractEmails(text),
+    invalid: unique(marked).filter(n => !accepted.has(n))
+  };
+};
+
+// Writes the contacts found in 联系方式 + 简介 into the row's structured fields (" / "-joined), and a note in
+// the check column when no usable contact was found or a marked number looked wrong (empty when all is well)
+export const applyParsedContacts = (row: CleanerRow): CleanerRow => {
+  const { invalid, ...fields } = parseContacts(`${row.联系方式 ?? ""}\n${row.简介 ?? ""}`);
+  const hasContact = Object.values(fields).some(values => values.length > 0);
+  const notes = [
+    ...(hasContact ? [] : ['无可用联系方式']),
+    ...(invalid.length > 0 ? [`号码无效: ${invalid.join(", ")}`] : [])
+  ];
+  return {
+    ...row,
+    ...Object.fromEntries(Object.entries(fields).map(([field, values]) => [field, values.join(" / ")])),
+    [CONTACT_CHECK_COLUMN]: notes.join("; ")
+  };
+};
+
+// Rows parsed at least once; editing their 联系方式 / 简介 parses them again
+export const hasParsedContacts = (row: CleanerRow) => row[CONTACT_CHECK_COLUMN] !== undefined;
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { applyExtractFields, createExtractField, toSchemaProperty, validateExtractFields } from './extractSchema';
+import { makeRow } from './testRows';
+
+const field = (id: string, key: string, column: string, type: 'string' | 'number' | 'boolean' | 'string_list' = 'string') =>
+  createExtractField({ id, key, column, type, description: '说明' });
+
+describe('validateExtractFields', () => {
+  it('reports built-in columns and keys, bad keys and duplicates', () => {
+    const errors = validateExtractFields([
+      field('a', 'location', '所在地'),
+      field('b', 'city', '用户名'),
+      field('c', 'fans', '粉丝'),
+      field('d', '1st', '首个'),
+      field('e', 'location', '地区'),
+      field('f', 'region', '所在地'),
+      createExtractField({ id: 'g', key: 'likes', column: '获赞数' })
+    ]);
+
+    expect(errors).toEqual({
+      b: '“用户名”是内置列',
+      c: '“fans”是内置字段',
+      d: '字段键须以英文字母开头，只含字母、数字、下划线',
+      e: '字段键“location”重复',
+      f: '列名“所在地”重复',
+      g: '请填写说明，模型靠它判断要提取什么'
+    });
+  });
+});
+
+describe('toSchemaProperty', () => {
+  it('gives every type a placeholder for values that were not found', () => {
+    expect(toSchemaProperty(field('a', 'likes', '获赞数', 'number'))).toEqual({ type: 'number', description: '说明. 如果未找到，请返回 -1' });
+    expect(toSchemaProperty(field('b', 'routes', '主营线路', 'string_list'))).toMatchObject({ type: 'array', items: { type: 'string' } });
+  });
+});
+
+describe('applyExtractFields', () => {
+  it('formats model values for the table and blanks the placeholders', () => {
+    const fields = [
+      field('a', 'likes', '获赞数', 'number'),
+      field('b', 'hasWarehouse', '有海外仓', 'boolean'),
+      field('c', 'routes', '主营线路', 'string_list'),
+      field('d', 'location', '所在地')
+    ];
+    const profile = { username: '示例物流', douyinId: '', fans: '', bio: '', contact: '', likes: -1, hasWarehouse: true, routes: [' 美国专线', '', '欧洲海派'], location: ' 深圳 ' };
+
+    expect(applyExtractFields(makeRow(1, { 用户名: '示例物流' }), profile, fields)).toMatchObject({ 获赞数: '', 有海外仓: '是', 主营线路: '美国专线 / 欧洲海派', 所在地: '深圳' });
+  });
+});
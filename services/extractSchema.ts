@@ -0,0 +1,122 @@
+import {
+  CleanerRow, ExtractField, ExtractFieldType, ParsedProfile,
+  AI_VERDICT_HEADERS, CONTACT_FIELDS, CONTACT_CHECK_COLUMN, SOURCE_COLUMN
+} from "../types";
+
+// User-defined extraction fields: each one becomes a property in the JSON schema sent to the model,
+// and a column in the table that its value is written to.
+
+export const EXTRACT_FIELD_TYPE_LABELS: Record<ExtractFieldType, string> = {
+  string: '文本',
+  number: '数字',
+  boolean: '是/否',
+  string_list: '文本列表'
+};
+
+// Common extras for Douyin profiles, offered as one-click additions
+export const EXTRACT_FIELD_PRESETS: Omit<ExtractField, 'id'>[] = [
+  { key: 'location', column: '所在地', type: 'string', description: 'IP属地或简介中写明的所在城市/地区' },
+  { key: 'following', column: '关注数', type: 'number', description: '关注数量，换算成整数 (如 1.2w = 12000)' },
+  { key: 'likes', column: '获赞数', type: 'number', description: '获赞总数，换算成整数 (如 3.5万 = 35000)' },
+  { key: 'verifiedBadge', column: '认证信息', type: 'string', description: '蓝V/黄V等认证标识后的文字，如“XX物流有限公司”' },
+  { key: 'routes', column: '主营线路', type: 'string_list', description: '简介中提到的物流线路或目的国，如 美国专线、欧洲海派' }
+];
+
+const BUILTIN_KEYS = ['username', 'douyinId', 'fans', 'bio', 'contact'];
+
+// Columns that already mean something in the table
+const RESERVED_COLUMNS = new Set([
+  '状态', '用户名', '抖音号', '粉丝数', '简介', '联系方式',
+  ...AI_VERDICT_HEADERS, ...CONTACT_FIELDS, CONTACT_CHECK_COLUMN, SOURCE_COLUMN
+]);
+
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+
+export const createExtractField = (patch: Partial<ExtractField> = {}): ExtractField => ({
+  id: `field_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+  key: '',
+  column: '',
+  description: '',
+  type: 'string',
+  ...patch
+});
+
+// Field id -> problem, for every field that can't be used as it is
+export const validateExtractFields = (fields: ExtractField[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  fields.forEach((field, index) => {
+    const key = field.key.trim();
+    const column = field.column.trim();
+    const earlier = fields.slice(0, index);
+    if (!column) errors[field.id] = '请填写列名';
+    else if (RESERVED_COLUMNS.has(column)) errors[field.id] = `“${column}”是内置列`;
+    else if (earlier.some(f => f.column.trim() === column)) errors[field.id] = `列名“${column}”重复`;
+    else if (!KEY_PATTERN.test(key)) errors[field.id] = '字段键须以英文字母开头，只含字母、数字、下划线';
+    else if (BUILTIN_KEYS.includes(key)) errors[field.id] = `“${key}”是内置字段`;
+    else if (earlier.some(f => f.key.trim() === key)) errors[field.id] = `字段键“${key}”重复`;
+    else if (!field.description.trim()) errors[field.id] = '请填写说明，模型靠它判断要提取什么';
+  });
+  return errors;
+};
+
+// --- Schema ---
+
+// Every property has to be required under strict mode, so "not found" gets a placeholder value instead of null
+export const toSchemaProperty = (field: ExtractField): Record<string, any> => {
+  const description = field.description.trim();
+  switch (field.type) {
+    case 'number':
+      return { type: 'number', description: `${description}. 如果未找到，请返回 -1` };
+    case 'boolean':
+      return { type: 'boolean', description: `${description}. 如果未提及，请返回 false` };
+    case 'string_list':
+      return { type: 'array', items: { type: 'string' }, description: `${description}. 如果未找到，请返回空数组` };
+    default:
+      return { type: 'string', description: `${description}. 如果未找到，请返回空字符串` };
+  }
+};
+
+// The "not found" values asked for above; they carry no information when merging copies of a profile
+export const isExtractPlaceholder = (value: unknown, type: ExtractFieldType) => {
+  switch (type) {
+    case 'number':
+      return !(Number(value) >= 0);
+    case 'boolean':
+      return value === false || value === 'false';
+    case 'string_list':
+      return Array.isArray(value) && value.every(v => String(v ?? "").trim() === "");
+    default:
+      return false;
+  }
+};
+
+// Also spelled out in the prompt, for endpoints that don't enforce the JSON schema
+export const describeExtractFields = (fields: ExtractField[]) =>
+  fields.length === 0
+    ? ''
+    : `\n【附加字段】每条记录还必须包含以下字段：\n${fields.map(f => `- ${f.key.trim()} (${EXTRACT_FIELD_TYPE_LABELS[f.type]}): ${f.description.trim()}`).join("\n")}\n`;
+
+// --- Table Values ---
+
+const formatExtractValue = (value: unknown, type: ExtractFieldType): string | number => {
+  if (value === null || value === undefined) return "";
+  switch (type) {
+    case 'number': {
+      const n = Number(value);
+      return Number.isFinite(n) && n >= 0 ? n : "";
+    }
+    case 'boolean':
+      return value === true || value === 'true' ? '是' : '否';
+    case 'string_list':
+      return (Array.isArray(value) ? value : [value]).map(v => String(v).trim()).filter(Boolean).join(" / ");
+    default:
+      return String(value).trim();
+  }
+};
+
+export const applyExtractFields = (row: CleanerRow, profile: ParsedProfile, fields: ExtractField[]): CleanerRow => {
+  if (fields.length === 0) return row;
+  const result = { ...row };
+  fields.forEach(field => { result[field.column.trim()] = formatExtractValue(profile[field.key.trim()], field.type); });
+  return result;
+};
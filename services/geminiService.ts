@@ -1,3 +1,73 @@
-// This file is deprecated and no longer used in the Data Cleaning application.
-// Please refer to services/openRouterService.ts for the current AI implementation.
-export {};
+import { LlmConfig } from "../types";
+import { ApiError, parseRetryAfter } from "./apiError";
+import type { StructuredCompletionRequest } from "./llmProviders";
+
+// Direct Google Gemini (Generative Language API) provider.
+// Used by services/llmProviders.ts when the "gemini" provider is selected.
+
+// Gemini's responseSchema is an OpenAPI subset: no additionalProperties, upper-case type names.
+const toGeminiSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: Record<string, unknown> = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (key === 'additionalProperties') return;
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toUpperCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([prop, propSchema]) => [prop, toGeminiSchema(propSchema)])
+      );
+    } else {
+      result[key] = toGeminiSchema(value);
+    }
+  });
+  return result;
+};
+
+export const requestGeminiCompletion = async (config: LlmConfig, request: StructuredCompletionRequest): Promise<string> => {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/models/${encodeURIComponent(config.model)}:generateContent`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": config.apiKey
+    },
+    body: JSON.stringify({
+      systemInstruction: { parts: [{ text: request.systemPrompt }] },
+      contents: [{ role: "user", parts: [{ text: request.userContent }] }],
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.jsonSchema.schema)
+      }
+    }),
+    signal: request.signal
+  });
+
+  const responseBodyText = await response.text();
+
+  if (!response.ok) {
+    let errorMsg = `Gemini API Error: ${response.status}`;
+    try {
+      const errorJson = JSON.parse(responseBodyText);
+      if (errorJson.error && errorJson.error.message) {
+        errorMsg = errorJson.error.message;
+      }
+    } catch { /* ignore */ }
+    throw new ApiError(errorMsg, responseBodyText, response.status, parseRetryAfter(response.headers.get("Retry-After")));
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(responseBodyText);
+  } catch {
+    throw new ApiError("Invalid JSON response", responseBodyText);
+  }
+  const parts: { text?: string }[] = data.candidates?.[0]?.content?.parts || [];
+  const contentStr = parts.map(p => p.text || '').join('');
+  if (!contentStr) throw new ApiError("Empty Content", responseBodyText);
+
+  return contentStr;
+};
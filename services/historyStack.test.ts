@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CleanerRow } from '../types';
+import { EMPTY_HISTORY, HistoryState, MAX_HISTORY_ENTRIES, createHistoryEntry, pushHistory, redoHistory, undoHistory } from './historyStack';
+import { makeRow } from './testRows';
+
+const row = (id: number, name = `用户${id}`) => makeRow(id, { 用户名: name });
+
+// Apply a mutation and record it, the way App's commitRows does
+const commit = (rows: CleanerRow[], history: HistoryState, next: CleanerRow[], coalesceKey?: string) => {
+  const entry = createHistoryEntry(rows, next, 'test', coalesceKey);
+  return { rows: next, history: entry ? pushHistory(history, entry) : history };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createHistoryEntry', () => {
+  it('records only the rows that changed', () => {
+    const rows = [row(1), row(2), row(3)];
+    const next = [rows[0], row(2, '改名'), rows[2]];
+    const entry = createHistoryEntry(rows, next, 'edit')!;
+
+    expect(entry.before).toEqual([{ index: 1, row: rows[1] }]);
+    expect(entry.after).toEqual([{ index: 1, row: next[1] }]);
+  });
+
+  it('returns null when nothing changed', () => {
+    const rows = [row(1), row(2)];
+    expect(createHistoryEntry(rows, [...rows], 'noop')).toBeNull();
+  });
+});
+
+describe('undo/redo', () => {
+  it('restores edits, removals and additions in their original positions', () => {
+    const initial = [row(1), row(2), row(3), row(4)];
+    let state = { rows: initial, history: EMPTY_HISTORY };
+    state = commit(state.rows, state.history, [initial[0], row(2, '改名'), initial[2], initial[3]]);
+    state = commit(state.rows, state.history, state.rows.filter(r => r._internal_id !== 1 && r._internal_id !== 3));
+    state = commit(state.rows, state.history, [...state.rows, row(5)]);
+
+    const afterAll = state.rows;
+    let rows = afterAll;
+    let history = state.history;
+    for (let i = 0; i < 3; i++) {
+      const undone = undoHistory(history, rows)!;
+      rows = undone.rows;
+      history = undone.history;
+    }
+    expect(rows).toEqual(initial);
+    expect(undoHistory(history, rows)).toBeNull();
+
+    for (let i = 0; i < 3; i++) {
+      const redone = redoHistory(history, rows)!;
+      rows = redone.rows;
+      history = redone.history;
+    }
+    expect(rows).toEqual(afterAll);
+    expect(redoHistory(history, rows)).toBeNull();
+  });
+
+  it('clears the redo stack on a new change', () => {
+    const initial = [row(1)];
+    let state = commit(initial, EMPTY_HISTORY, [row(1, 'a')]);
+    const undone = undoHistory(state.history, state.rows)!;
+    state = commit(undone.rows, undone.history, [row(1, 'b')]);
+
+    expect(state.history.future).toEqual([]);
+    expect(state.history.past).toHaveLength(1);
+  });
+
+  it('caps the number of entries', () => {
+    let state = { rows: [row(1)], history: EMPTY_HISTORY };
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 10; i++) {
+      state = commit(state.rows, state.history, [row(1, `v${i}`)]);
+    }
+    expect(state.history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+  });
+});
+
+describe('coalescing', () => {
+  it('merges quick edits with the same key into one undo step that keeps the first before', () => {
+    vi.useFakeTimers();
+    const initial = [row(1, '原值')];
+    let state = commit(initial, EMPTY_HISTORY, [row(1, '原值a')], 'edit:1:用户名');
+    const firstId = state.history.past[0].id;
+    vi.advanceTimersByTime(500);
+    state = commit(state.rows, state.history, [row(1, '原值ab')], 'edit:1:用户名');
+
+    expect(state.history.past).toHaveLength(1);
+    expect(state.history.past[0].id).toBe(firstId);
+    expect(undoHistory(state.history, state.rows)!.rows).toEqual(initial);
+  });
+
+  it('keeps separate steps for different keys or after a pause', () => {
+    vi.useFakeTimers();
+    let state = commit([row(1)], EMPTY_HISTORY, [row(1, 'a')], 'edit:1:用户名');
+    state = commit(state.rows, state.history, [{ ...state.rows[0], 简介: 'x' }], 'edit:1:简介');
+    vi.advanceTimersByTime(2000);
+    state = commit(state.rows, state.history, [{ ...state.rows[0], 简介: 'xy' }], 'edit:1:简介');
+
+    expect(state.history.past).toHaveLength(3);
+  });
+});
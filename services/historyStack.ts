@@ -0,0 +1,152 @@
+import { CleanerRow } from "../types";
+
+// Undo/redo for table mutations.
+// Each entry stores only the rows that changed (a row-level patch), not a full snapshot, so an
+// edit to one cell in a 50k-row table costs one row. The stack is capped by entries and by stored rows.
+
+type RowId = number | string;
+
+interface IndexedRow {
+  index: number;
+  row: CleanerRow;
+}
+
+export interface HistoryEntry {
+  id: string; // Stable across coalescing; the project store saves and deletes entries by it
+  label: string;
+  timestamp: number;
+  coalesceKey?: string; // Consecutive entries with the same key (e.g. typing in one cell) merge into one
+  before: IndexedRow[]; // Rows as they were, at their index in the old table (changed or removed)
+  after: IndexedRow[]; // Rows as they became, at their index in the new table (changed or added)
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const MAX_HISTORY_ENTRIES = 50;
+export const MAX_HISTORY_ROWS = 200000; // Upper bound on rows kept across all entries
+const COALESCE_WINDOW_MS = 1500;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const createHistoryEntryId = () => `h_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Fast path for in-place updates (cell edits, status changes): same length and same id at every index,
+// so rows can be compared position by position without building id maps. Returns null otherwise.
+const diffAligned = (prevRows: CleanerRow[], nextRows: CleanerRow[]) => {
+  if (prevRows.length !== nextRows.length) return null;
+  const before: IndexedRow[] = [];
+  const after: IndexedRow[] = [];
+  for (let index = 0; index < prevRows.length; index++) {
+    const prev = prevRows[index];
+    const next = nextRows[index];
+    if (prev === next) continue;
+    if (prev._internal_id !== next._internal_id) return null;
+    before.push({ index, row: prev });
+    after.push({ index, row: next });
+  }
+  return { before, after };
+};
+
+// Diff two versions of the table by _internal_id. Mutations never reorder surviving rows,
+// which is what lets applyPatch rebuild either side from the other.
+export const createHistoryEntry = (
+  prevRows: CleanerRow[],
+  nextRows: CleanerRow[],
+  label: string,
+  coalesceKey?: string
+): HistoryEntry | null => {
+  const aligned = diffAligned(prevRows, nextRows);
+  if (aligned) {
+    if (aligned.before.length === 0) return null;
+    return { id: createHistoryEntryId(), label, timestamp: Date.now(), coalesceKey, ...aligned };
+  }
+
+  const prevById = new Map<RowId, CleanerRow>();
+  prevRows.forEach(row => prevById.set(row._internal_id!, row));
+  const nextById = new Map<RowId, CleanerRow>();
+  nextRows.forEach(row => nextById.set(row._internal_id!, row));
+
+  // Unchanged rows keep the same object reference, so identity comparison finds every change
+  const before: IndexedRow[] = [];
+  prevRows.forEach((row, index) => {
+    if (nextById.get(row._internal_id!) !== row) before.push({ index, row });
+  });
+
+  const after: IndexedRow[] = [];
+  nextRows.forEach((row, index) => {
+    if (prevById.get(row._internal_id!) !== row) after.push({ index, row });
+  });
+
+  if (before.length === 0 && after.length === 0) return null;
+  return { id: createHistoryEntryId(), label, timestamp: Date.now(), coalesceKey, before, after };
+};
+
+// Remove the rows of one side and insert the rows of the other side at their recorded indices
+const applyPatch = (rows: CleanerRow[], remove: IndexedRow[], insert: IndexedRow[]): CleanerRow[] => {
+  const removeIds = new Set(remove.map(r => r.row._internal_id));
+  const remaining = rows.filter(row => !removeIds.has(row._internal_id!));
+  const sortedInsert = [...insert].sort((a, b) => a.index - b.index);
+
+  // Single merge pass (instead of repeated splice) so undoing a large scattered removal stays linear
+  const result: CleanerRow[] = [];
+  let r = 0;
+  let i = 0;
+  while (r < remaining.length || i < sortedInsert.length) {
+    if (i < sortedInsert.length && (sortedInsert[i].index <= result.length || r >= remaining.length)) {
+      result.push(sortedInsert[i++].row);
+    } else {
+      result.push(remaining[r++]);
+    }
+  }
+  return result;
+};
+
+const countRows = (entries: HistoryEntry[]) =>
+  entries.reduce((sum, e) => sum + e.before.length + e.after.length, 0);
+
+// Drop the oldest entries until both limits hold
+const trimPast = (past: HistoryEntry[]): HistoryEntry[] => {
+  const trimmed = past.slice(-MAX_HISTORY_ENTRIES);
+  let rowCount = countRows(trimmed);
+  while (trimmed.length > 1 && rowCount > MAX_HISTORY_ROWS) {
+    const dropped = trimmed.shift()!;
+    rowCount -= dropped.before.length + dropped.after.length;
+  }
+  return trimmed;
+};
+
+export const pushHistory = (history: HistoryState, entry: HistoryEntry): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  if (
+    last && entry.coalesceKey && last.coalesceKey === entry.coalesceKey &&
+    entry.timestamp - last.timestamp < COALESCE_WINDOW_MS
+  ) {
+    // Keep the oldest "before" so undo jumps back to the value before the user started typing
+    const merged: HistoryEntry = { ...last, timestamp: entry.timestamp, after: entry.after };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: trimPast([...history.past, entry]), future: [] };
+};
+
+export const undoHistory = (history: HistoryState, rows: CleanerRow[]) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    rows: applyPatch(rows, entry.after, entry.before),
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] },
+    label: entry.label
+  };
+};
+
+export const redoHistory = (history: HistoryState, rows: CleanerRow[]) => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    rows: applyPatch(rows, entry.before, entry.after),
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) },
+    label: entry.label
+  };
+};
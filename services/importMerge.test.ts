@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { CleanerRow } from '../types';
+import { mergeImportedRows } from './importMerge';
+import { makeRow } from './testRows';
+
+const row = (id: number, fields: Partial<CleanerRow>) => makeRow(id, { checkStatus: 'verified', ...fields });
+
+const existing = [
+  row(1, { 用户名: '示例物流', 抖音号: 'wuliu_01', 简介: '美线海派', 联系方式: '' }),
+  row(2, { 用户名: '另一家', 抖音号: 'other_02', 联系方式: '13800000000' })
+];
+
+describe('mergeImportedRows', () => {
+  it('skip: leaves matching rows untouched and appends new ones', () => {
+    const imported = [
+      row(10, { 用户名: '示例物流(新)', 抖音号: '@WULIU_01', 联系方式: '13900000000' }),
+      row(11, { 用户名: '新账号', 抖音号: 'new_03' })
+    ];
+    const { rows, summary } = mergeImportedRows(existing, imported, { strategy: 'skip', matchKeys: ['抖音号'] });
+
+    expect(summary).toEqual({ added: 1, merged: 0, skipped: 1 });
+    expect(rows[0]).toBe(existing[0]);
+    expect(rows.map(r => r._internal_id)).toEqual([1, 2, 11]);
+  });
+
+  it('overwrite: imported values win, blank imported cells never erase data', () => {
+    const imported = [row(10, { 用户名: '示例物流(新)', 抖音号: 'wuliu_01', 简介: '', 联系方式: '13900000000' })];
+    const { rows, summary } = mergeImportedRows(existing, imported, { strategy: 'overwrite', matchKeys: ['抖音号'] });
+
+    expect(summary).toEqual({ added: 0, merged: 1, skipped: 0 });
+    expect(rows[0]).toMatchObject({ _internal_id: 1, 用户名: '示例物流(新)', 简介: '美线海派', 联系方式: '13900000000' });
+    // A changed username needs a fresh relevance check
+    expect(rows[0].checkStatus).toBe('unverified');
+  });
+
+  it('fill_empty: only blank fields of the existing row are filled', () => {
+    const imported = [row(10, { 用户名: '示例物流(新)', 抖音号: 'wuliu_01', 联系方式: '13900000000' })];
+    const { rows, summary } = mergeImportedRows(existing, imported, { strategy: 'fill_empty', matchKeys: ['抖音号'] });
+
+    expect(summary).toEqual({ added: 0, merged: 1, skipped: 0 });
+    expect(rows[0]).toMatchObject({ 用户名: '示例物流', 联系方式: '13900000000', checkStatus: 'verified' });
+  });
+
+  it('counts a duplicate that changes nothing as skipped', () => {
+    const imported = [row(10, { 用户名: '另一家', 抖音号: 'other_02' })];
+    const { rows, summary } = mergeImportedRows(existing, imported, { strategy: 'overwrite', matchKeys: ['抖音号'] });
+
+    expect(summary).toEqual({ added: 0, merged: 0, skipped: 1 });
+    expect(rows[1]).toBe(existing[1]);
+  });
+
+  it('tries match keys in order, so a contact can match when the ID is missing', () => {
+    const imported = [row(10, { 用户名: '另一家分号', 联系方式: '138 0000 0000' })];
+    const { summary } = mergeImportedRows(existing, imported, { strategy: 'skip', matchKeys: ['抖音号', '联系方式'] });
+
+    expect(summary).toEqual({ added: 0, merged: 0, skipped: 1 });
+  });
+
+  it('matches rows repeated inside the imported file against each other', () => {
+    const imported = [
+      row(10, { 用户名: '新账号', 抖音号: 'new_03' }),
+      row(11, { 用户名: '新账号', 抖音号: 'new_03', 联系方式: '13700000000' })
+    ];
+    const { rows, summary } = mergeImportedRows(existing, imported, { strategy: 'fill_empty', matchKeys: ['抖音号'] });
+
+    expect(summary).toEqual({ added: 1, merged: 1, skipped: 0 });
+    expect(rows).toHaveLength(3);
+    expect(rows[2]).toMatchObject({ _internal_id: 10, 联系方式: '13700000000' });
+  });
+
+  it('appends everything when no match keys are chosen', () => {
+    const { rows, summary } = mergeImportedRows(existing, [row(10, { 抖音号: 'wuliu_01' })], { strategy: 'skip', matchKeys: [] });
+
+    expect(summary).toEqual({ added: 1, merged: 0, skipped: 0 });
+    expect(rows).toHaveLength(3);
+  });
+});
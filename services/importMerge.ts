@@ -0,0 +1,99 @@
+import { CleanerRow, ImportMatchKey, ImportMergeOptions, ImportSummary } from "../types";
+import { normalizeDouyinId, normalizeUsername, normalizeContact } from "./profileMerge";
+
+// Merges imported rows into the existing table instead of blindly appending them,
+// so re-importing last week's sheet doesn't double every account.
+
+export const IMPORT_MATCH_KEYS: ImportMatchKey[] = ['抖音号', '联系方式', '用户名'];
+
+// Changing these makes the row need a fresh relevance check (same rule as a manual cell edit)
+const RECHECK_FIELDS = new Set(['用户名', '简介']);
+
+const NORMALIZERS: Record<ImportMatchKey, (val: unknown) => string> = {
+  抖音号: normalizeDouyinId,
+  联系方式: normalizeContact,
+  用户名: normalizeUsername
+};
+
+const OPTIONS_STORAGE_KEY = 'import_merge_options';
+
+export const DEFAULT_IMPORT_MERGE_OPTIONS: ImportMergeOptions = { strategy: 'skip', matchKeys: ['抖音号'] };
+
+export const loadImportMergeOptions = (): ImportMergeOptions => {
+  try {
+    const raw = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return raw ? { ...DEFAULT_IMPORT_MERGE_OPTIONS, ...JSON.parse(raw) } : DEFAULT_IMPORT_MERGE_OPTIONS;
+  } catch (e) {
+    console.warn("[ImportMerge] Failed to parse saved options.", e);
+    return DEFAULT_IMPORT_MERGE_OPTIONS;
+  }
+};
+
+export const saveImportMergeOptions = (options: ImportMergeOptions) =>
+  localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+
+const isBlank = (val: unknown) => val === null || val === undefined || String(val).trim() === "";
+
+// overwrite: imported values win wherever the import has one (blank cells never erase data).
+// fill_empty: only blank fields of the existing row are filled. Returns the existing object when nothing changed.
+const mergeRow = (existing: CleanerRow, imported: CleanerRow, strategy: ImportMergeOptions['strategy']): CleanerRow => {
+  let updated: CleanerRow | null = null;
+  for (const field of Object.keys(imported)) {
+    if (field === '_internal_id' || field === 'checkStatus' || isBlank(imported[field])) continue;
+    const canWrite = strategy === 'overwrite' || isBlank(existing[field]);
+    if (!canWrite || String(existing[field] ?? "") === String(imported[field])) continue;
+    updated = updated || { ...existing };
+    updated[field] = imported[field];
+    if (RECHECK_FIELDS.has(field)) updated.checkStatus = 'unverified';
+  }
+  return updated || existing;
+};
+
+export const mergeImportedRows = (
+  existingRows: CleanerRow[],
+  importedRows: CleanerRow[],
+  options: ImportMergeOptions
+): { rows: CleanerRow[]; summary: ImportSummary } => {
+  const rows = [...existingRows];
+  // Every imported row ends up counted exactly once: added, merged into another row, or skipped
+  const summary: ImportSummary = { added: 0, merged: 0, skipped: 0 };
+
+  // One index per match key: normalized value -> position in `rows`
+  const indexes = options.matchKeys.map(key => ({ key, byValue: new Map<string, number>() }));
+  const register = (row: CleanerRow, position: number) => {
+    indexes.forEach(({ key, byValue }) => {
+      const value = NORMALIZERS[key](row[key]);
+      if (value && !byValue.has(value)) byValue.set(value, position);
+    });
+  };
+  rows.forEach(register);
+
+  importedRows.forEach(imported => {
+    // Keys are tried in the order given, so 抖音号 can take priority over a shared contact
+    let match: number | undefined;
+    for (const { key, byValue } of indexes) {
+      const value = NORMALIZERS[key](imported[key]);
+      match = value ? byValue.get(value) : undefined;
+      if (match !== undefined) break;
+    }
+
+    // Rows repeated inside the file are matched against the copy added a moment ago
+    if (match === undefined) {
+      rows.push(imported);
+      register(imported, rows.length - 1);
+      summary.added++;
+      return;
+    }
+
+    const merged = options.strategy === 'skip' ? rows[match] : mergeRow(rows[match], imported, options.strategy);
+    if (merged === rows[match]) {
+      summary.skipped++;
+      return;
+    }
+    rows[match] = merged;
+    register(merged, match);
+    summary.merged++;
+  });
+
+  return { rows, summary };
+};
@@ -0,0 +1,244 @@
+import { LlmConfig, LlmProviderId, LlmProviderSettings, LlmSettings } from "../types";
+import { ApiError, parseRetryAfter } from "./apiError";
+import { DEFAULT_CONCURRENCY, MAX_CONCURRENCY } from "./batchRunner";
+import { ChunkingOptions, DEFAULT_CHUNK_TOKENS, DEFAULT_OVERLAP_TOKENS, MIN_CHUNK_TOKENS } from "./textChunker";
+import { requestGeminiCompletion } from "./geminiService";
+
+// OpenAI-style strict JSON schema wrapper ({ name, strict, schema })
+export interface JsonSchemaSpec {
+  name: string;
+  strict: boolean;
+  schema: Record<string, any>;
+}
+
+export interface StructuredCompletionRequest {
+  systemPrompt: string;
+  userContent: string;
+  jsonSchema: JsonSchemaSpec;
+  signal?: AbortSignal;
+}
+
+export interface LlmProviderDefinition {
+  id: LlmProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  // Suggested models; the UI still accepts any model ID the endpoint understands
+  models: string[];
+  keyPlaceholder: string;
+  requiresApiKey: boolean;
+  // Default input budget per request; output JSON grows with input, so this also guards the output limit
+  defaultChunkTokens: number;
+}
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProviderDefinition> = {
+  openrouter: {
+    id: 'openrouter',
+    label: 'OpenRouter',
+    defaultBaseUrl: 'https://openrouter.ai/api/v1',
+    models: [
+      'google/gemini-2.0-flash-001',
+      'google/gemini-2.5-flash',
+      'openai/gpt-4o-mini',
+      'deepseek/deepseek-chat',
+      'qwen/qwen-2.5-72b-instruct'
+    ],
+    keyPlaceholder: 'sk-or-...',
+    requiresApiKey: true,
+    defaultChunkTokens: DEFAULT_CHUNK_TOKENS
+  },
+  openai_compatible: {
+    id: 'openai_compatible',
+    label: 'OpenAI 兼容接口',
+    // e.g. vLLM / Ollama / LM Studio served locally
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    models: ['qwen2.5:14b', 'llama3.1:8b', 'gpt-4o-mini'],
+    keyPlaceholder: '可选，本地服务可留空',
+    requiresApiKey: false,
+    // Local models are usually served with an 8k context
+    defaultChunkTokens: 3000
+  },
+  gemini: {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    models: ['gemini-2.0-flash', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+    keyPlaceholder: 'AIza...',
+    requiresApiKey: true,
+    defaultChunkTokens: DEFAULT_CHUNK_TOKENS
+  }
+};
+
+export const LLM_PROVIDER_IDS = Object.keys(LLM_PROVIDERS) as LlmProviderId[];
+
+// --- Settings Persistence ---
+const SETTINGS_STORAGE_KEY = 'llm_settings';
+const LEGACY_OPENROUTER_KEY = 'openrouter_api_key';
+
+const defaultProviderSettings = (id: LlmProviderId): LlmProviderSettings => ({
+  apiKey: '',
+  baseUrl: LLM_PROVIDERS[id].defaultBaseUrl,
+  model: LLM_PROVIDERS[id].models[0]
+});
+
+export const createDefaultLlmSettings = (): LlmSettings => ({
+  activeProvider: 'openrouter',
+  concurrency: DEFAULT_CONCURRENCY,
+  chunkTokenBudgets: {},
+  overlapTokens: DEFAULT_OVERLAP_TOKENS,
+  providers: {
+    openrouter: defaultProviderSettings('openrouter'),
+    openai_compatible: defaultProviderSettings('openai_compatible'),
+    gemini: defaultProviderSettings('gemini')
+  }
+});
+
+export const loadLlmSettings = (): LlmSettings => {
+  const settings = createDefaultLlmSettings();
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<LlmSettings>;
+      if (parsed.activeProvider && LLM_PROVIDERS[parsed.activeProvider]) {
+        settings.activeProvider = parsed.activeProvider;
+      }
+      if (typeof parsed.concurrency === 'number' && parsed.concurrency >= 1) {
+        settings.concurrency = Math.min(MAX_CONCURRENCY, Math.floor(parsed.concurrency));
+      }
+      if (parsed.chunkTokenBudgets && typeof parsed.chunkTokenBudgets === 'object') {
+        settings.chunkTokenBudgets = { ...parsed.chunkTokenBudgets };
+      }
+      if (typeof parsed.overlapTokens === 'number' && parsed.overlapTokens >= 0) {
+        settings.overlapTokens = parsed.overlapTokens;
+      }
+      LLM_PROVIDER_IDS.forEach(id => {
+        settings.providers[id] = { ...settings.providers[id], ...(parsed.providers?.[id] || {}) };
+      });
+    } else {
+      // Carry over the key saved by the old OpenRouter-only panel
+      const legacyKey = localStorage.getItem(LEGACY_OPENROUTER_KEY);
+      if (legacyKey) settings.providers.openrouter.apiKey = legacyKey;
+    }
+  } catch (e) {
+    console.warn("[LLM] Failed to load provider settings, using defaults.", e);
+  }
+  return settings;
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Project settings are shared by export/duplicate, so keys are removed before they are stored there
+export const stripApiKeys = (settings: LlmSettings): LlmSettings => ({
+  ...settings,
+  providers: Object.fromEntries(
+    LLM_PROVIDER_IDS.map(id => [id, { ...settings.providers[id], apiKey: '' }])
+  ) as LlmSettings['providers']
+});
+
+// Combine a project's (key-less) settings with the keys saved on this machine
+export const withSavedApiKeys = (settings: LlmSettings, saved: LlmSettings = loadLlmSettings()): LlmSettings => ({
+  ...createDefaultLlmSettings(),
+  ...settings,
+  providers: Object.fromEntries(
+    LLM_PROVIDER_IDS.map(id => [id, {
+      ...createDefaultLlmSettings().providers[id],
+      ...(settings.providers?.[id] || {}),
+      apiKey: saved.providers[id].apiKey
+    }])
+  ) as LlmSettings['providers']
+});
+
+export const getActiveLlmConfig = (settings: LlmSettings): LlmConfig => ({
+  provider: settings.activeProvider,
+  ...settings.providers[settings.activeProvider]
+});
+
+const chunkBudgetKey = (settings: LlmSettings) =>
+  `${settings.activeProvider}:${settings.providers[settings.activeProvider].model.trim()}`;
+
+// Token budget for the active provider + model (user override, else the provider default)
+export const getChunkTokenBudget = (settings: LlmSettings): number =>
+  settings.chunkTokenBudgets[chunkBudgetKey(settings)] || LLM_PROVIDERS[settings.activeProvider].defaultChunkTokens;
+
+export const setChunkTokenBudget = (settings: LlmSettings, maxTokens: number): LlmSettings => ({
+  ...settings,
+  chunkTokenBudgets: { ...settings.chunkTokenBudgets, [chunkBudgetKey(settings)]: Math.max(MIN_CHUNK_TOKENS, Math.floor(maxTokens)) }
+});
+
+export const getChunkingOptions = (settings: LlmSettings): ChunkingOptions => ({
+  maxTokens: getChunkTokenBudget(settings),
+  overlapTokens: settings.overlapTokens
+});
+
+// Returns a user-facing error message if the config cannot be used, otherwise null
+export const validateLlmConfig = (config: LlmConfig): string | null => {
+  const def = LLM_PROVIDERS[config.provider];
+  if (def.requiresApiKey && !config.apiKey.trim()) return `请先输入 ${def.label} API Key`;
+  if (!config.baseUrl.trim()) return `请填写 ${def.label} 接口地址`;
+  if (!config.model.trim()) return "请选择或输入模型名称";
+  return null;
+};
+
+// --- OpenAI-style Chat Completions (OpenRouter + any compatible endpoint) ---
+const requestChatCompletion = async (config: LlmConfig, request: StructuredCompletionRequest): Promise<string> => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+  if (config.provider === 'openrouter') {
+    headers["HTTP-Referer"] = window.location.origin;
+    headers["X-Title"] = "Data Cleaner Tool";
+  }
+
+  const body: Record<string, any> = {
+    model: config.model,
+    messages: [
+      { role: "system", content: request.systemPrompt },
+      { role: "user", content: request.userContent }
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: request.jsonSchema
+    }
+  };
+  // Self-hosted servers reject limits above their context size, so only OpenRouter gets the large cap
+  if (config.provider === 'openrouter') body.max_tokens = 64000;
+
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+    signal: request.signal
+  });
+
+  const responseBodyText = await response.text();
+
+  if (!response.ok) {
+    let errorMsg = `API Error: ${response.status}`;
+    try {
+      const errorJson = JSON.parse(responseBodyText);
+      if (errorJson.error && errorJson.error.message) {
+        errorMsg = errorJson.error.message;
+      }
+    } catch { /* ignore */ }
+    throw new ApiError(errorMsg, responseBodyText, response.status, parseRetryAfter(response.headers.get("Retry-After")));
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(responseBodyText);
+  } catch {
+    throw new ApiError("Invalid JSON response", responseBodyText);
+  }
+  const contentStr = data.choices?.[0]?.message?.content;
+  if (!contentStr) throw new ApiError("Empty Content", responseBodyText);
+
+  return contentStr;
+};
+
+// Dispatch a structured (JSON schema) request to the configured provider and return the raw content string
+export const requestStructuredCompletion = (config: LlmConfig, request: StructuredCompletionRequest): Promise<string> => {
+  if (config.provider === 'gemini') {
+    return requestGeminiCompletion(config, request);
+  }
+  return requestChatCompletion(config, request);
+};
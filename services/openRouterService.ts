@@ -1,20 +1,12 @@
-import { ParsedProfile } from "../types";
+import { ExtractField, ExtractionResult, FailedChunk, FilterRunResult, LlmConfig, ParsedProfile, RelevanceInput, RelevanceVerdict } from "../types";
+import { ApiError } from "./apiError";
+import { runBatches } from "./batchRunner";
+import { mergeDuplicateProfiles } from "./profileMerge";
+import { ChunkingOptions, DEFAULT_CHUNK_TOKENS, DEFAULT_OVERLAP_TOKENS, chunkItemsByTokens, chunkTextByTokens } from "./textChunker";
+import { JsonSchemaSpec, requestStructuredCompletion, validateLlmConfig } from "./llmProviders";
+import { describeExtractFields, toSchemaProperty } from "./extractSchema";
 
-// Using Gemini 2.0 Flash (OpenRouter ID)
-const MODEL_NAME = "google/gemini-2.0-flash-001";
-const OPENROUTER_URL = "https://openrouter.ai/api/v1/chat/completions";
-
-console.log("[System] OpenRouter Service Loaded - Version: Win10-Gemini2.0-Flash-Overlap500");
-
-// Custom Error class to transport raw response to UI
-export class ApiError extends Error {
-  rawResponse?: string;
-  constructor(message: string, rawResponse?: string) {
-    super(message);
-    this.name = 'ApiError';
-    this.rawResponse = rawResponse;
-  }
-}
+export { ApiError };
 
 // 1. Strict Schema for Extraction
 const EXTRACT_JSON_SCHEMA = {
@@ -60,30 +52,80 @@ const EXTRACT_JSON_SCHEMA = {
   }
 };
 
-// 2. Strict Schema for Filtering
+// The base schema plus the project's custom fields (all required, as strict mode demands)
+const buildExtractJsonSchema = (fields: ExtractField[]): JsonSchemaSpec => {
+  if (fields.length === 0) return EXTRACT_JSON_SCHEMA;
+  const items = EXTRACT_JSON_SCHEMA.schema.properties.profiles.items;
+  const keys = fields.map(f => f.key.trim());
+  return {
+    ...EXTRACT_JSON_SCHEMA,
+    schema: {
+      ...EXTRACT_JSON_SCHEMA.schema,
+      properties: {
+        profiles: {
+          ...EXTRACT_JSON_SCHEMA.schema.properties.profiles,
+          items: {
+            ...items,
+            properties: { ...items.properties, ...Object.fromEntries(fields.map((f, i) => [keys[i], toSchemaProperty(f)])) },
+            required: [...items.required, ...keys]
+          }
+        }
+      }
+    }
+  };
+};
+
+// 2. Strict Schema for Filtering: one verdict per input row, so every removal is explainable
+export const RELEVANCE_CATEGORIES = ['空运', '海运', '铁路/陆运', '快递/专线', '海外仓', '货代', '跨境电商', '外贸', '其他物流', '无关'];
+
 const FILTER_JSON_SCHEMA = {
-  name: "filtered_ids_response",
+  name: "relevance_verdicts_response",
   strict: true,
   schema: {
     type: "object",
     properties: {
-      ids_to_remove: {
+      verdicts: {
         type: "array",
-        description: "List of IDs belonging to irrelevant profiles that should be removed",
+        description: "One verdict for every input profile",
         items: {
-          type: "number",
-          description: "The numeric ID of the profile"
+          type: "object",
+          properties: {
+            id: {
+              type: "number",
+              description: "The numeric ID of the profile, copied from the input"
+            },
+            verdict: {
+              type: "string",
+              enum: ["keep", "remove"],
+              description: "keep = 相关，保留; remove = 无关，删除"
+            },
+            category: {
+              type: "string",
+              enum: RELEVANCE_CATEGORIES,
+              description: "账号所属的行业分类"
+            },
+            confidence: {
+              type: "number",
+              description: "判定的把握程度，0 到 1 之间"
+            },
+            reason: {
+              type: "string",
+              description: "不超过 30 字的判定理由"
+            }
+          },
+          required: ["id", "verdict", "category", "confidence", "reason"],
+          additionalProperties: false
         }
       }
     },
-    required: ["ids_to_remove"],
+    required: ["verdicts"],
     additionalProperties: false
   }
 };
 
 // --- UPDATED PROMPTS FOR OVERLAP STRATEGY ---
 
-const SYSTEM_PROMPT_EXTRACT = `
+export const SYSTEM_PROMPT_EXTRACT = `
 你是一个专业的数据清洗助手。你的任务是从用户提供的非结构化文本中提取抖音/TikTok账号信息。
 
 【重要：边缘处理策略】
@@ -93,7 +135,10 @@ const SYSTEM_PROMPT_EXTRACT = `
 3. **只提取完整数据**：仅当你可以提取到（用户名+抖音号+简介）等关键信息的组合时才输出。
 
 【由于有重叠窗口，不要担心丢失数据，残缺的数据会在下一个窗口中完整出现。】
+`;
 
+// Output contract appended to every extraction prompt, for the same reason as FILTER_OUTPUT_INSTRUCTIONS below
+const EXTRACT_OUTPUT_INSTRUCTIONS = `
 【目标输出格式示例】
 请严格按照以下 JSON 格式输出，不要包含任何其他文字：
 {
@@ -115,17 +160,24 @@ const SYSTEM_PROMPT_EXTRACT = `
 
 export const SYSTEM_PROMPT_FILTER = `
 你是一个国际物流行业的数据分析师。请分析提供的账号列表，进行相关性清洗。
-目标：找出所有与“国际物流、跨境贸易、货代”【无关】的账号ID。
+目标：判断每个账号是否与“国际物流、跨境贸易、货代”相关。
 
 【判定标准】
 - 保留（相关）：空运、海运、快递、物流、货代、双清包税、空派、海派、集运、海外仓、跨境电商供应链、外贸。
 - 删除（无关）：纯娱乐、生活分享、甚至修车/餐饮等本地服务、纯粹的博览会推广（除非明确是物流展）、卖衣服/百货直播号。
+`;
 
+// Output contract appended to every filter prompt (default or user-edited), so the editable part only holds the criteria
+const FILTER_OUTPUT_INSTRUCTIONS = `
 【目标输出格式示例】
-请严格按照以下 JSON 格式输出，只包含需要删除的 ID 列表：
+请对输入中的【每一个】账号给出判定，严格按照以下 JSON 格式输出，不要包含任何其他文字：
 {
-  "ids_to_remove": [ 101, 102, 505 ]
+  "verdicts": [
+    { "id": 101, "verdict": "keep", "category": "海运", "confidence": 0.95, "reason": "简介提到美线海派双清" },
+    { "id": 102, "verdict": "remove", "category": "无关", "confidence": 0.9, "reason": "服装直播带货" }
+  ]
 }
+category 只能取以下值之一：${RELEVANCE_CATEGORIES.join('、')}。
 `;
 
 // --- Helper: Robust JSON Parsing ---
@@ -155,145 +207,182 @@ const safeJsonParse = (rawText: string, context: string) => {
 };
 
 // --- Internal Single Batch Request ---
-const processSingleBatch = async (textChunk: string, apiKey: string): Promise<ParsedProfile[]> => {
-  const response = await fetch(OPENROUTER_URL, {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-      "HTTP-Referer": window.location.origin,
-      "X-Title": "Data Cleaner Tool"
-    },
-    body: JSON.stringify({
-      model: MODEL_NAME,
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT_EXTRACT },
-        { role: "user", content: textChunk }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: EXTRACT_JSON_SCHEMA
-      },
-      max_tokens: 64000 
-    })
+const processSingleBatch = async (
+  textChunk: string,
+  config: LlmConfig,
+  systemPrompt: string,
+  jsonSchema: JsonSchemaSpec,
+  signal?: AbortSignal
+): Promise<ParsedProfile[]> => {
+  const contentStr = await requestStructuredCompletion(config, {
+    systemPrompt,
+    userContent: textChunk,
+    jsonSchema,
+    signal
   });
 
-  const responseBodyText = await response.text();
-  
-  if (!response.ok) {
-    let errorMsg = `API Error: ${response.status}`;
-    try {
-      const errorJson = JSON.parse(responseBodyText);
-      if (errorJson.error && errorJson.error.message) {
-        errorMsg = errorJson.error.message;
-      }
-    } catch { /* ignore */ }
-    throw new ApiError(errorMsg, responseBodyText);
-  }
-
-  const data = JSON.parse(responseBodyText);
-  const contentStr = data.choices?.[0]?.message?.content;
-  
-  if (!contentStr) throw new ApiError("Empty Content", responseBodyText);
-
   const parsedObj = safeJsonParse(contentStr, "ExtractBatch");
   return parsedObj?.profiles || [];
 };
 
+export interface BatchJobOptions {
+  concurrency?: number;
+  chunking?: ChunkingOptions; // Extraction only: token budget + overlap per chunk
+  signal?: AbortSignal; // Abort to stop the job; finished chunks are still returned
+  extractPrompt?: string; // Extraction only: edited instructions, the output format is appended either way
+  extractFields?: ExtractField[]; // Extraction only: custom fields added to the output schema
+}
+
+// --- Chunk Runner: worker pool + retries, failed chunks are returned instead of dropped ---
+const runExtractionChunks = async (
+  chunks: { index: number, text: string }[],
+  totalChunks: number,
+  config: LlmConfig,
+  onProgress?: (current: number, total: number) => void,
+  options: BatchJobOptions = {}
+): Promise<ExtractionResult> => {
+  const extractFields = options.extractFields || [];
+  const systemPrompt = (options.extractPrompt || SYSTEM_PROMPT_EXTRACT) + EXTRACT_OUTPUT_INSTRUCTIONS + describeExtractFields(extractFields);
+  const jsonSchema = buildExtractJsonSchema(extractFields);
+  const { results, failures, cancelled } = await runBatches(
+    chunks,
+    (chunk, _index, signal) => processSingleBatch(chunk.text, config, systemPrompt, jsonSchema, signal),
+    { concurrency: options.concurrency, context: "Batching", signal: options.signal, onProgress }
+  );
+
+  // Flatten in chunk order so the output is stable regardless of completion order,
+  // then reconcile the copies produced by the overlapping windows
+  const rawProfiles = results.reduce<ParsedProfile[]>((acc, batch) => batch ? acc.concat(batch) : acc, []);
+  const { profiles, mergedCount } = mergeDuplicateProfiles(rawProfiles, extractFields);
+  const failedChunks: FailedChunk[] = failures.map(f => ({ index: f.item.index, text: f.item.text, error: f.error }));
+  const cancelledChunks: FailedChunk[] = cancelled.map(c => ({ index: c.item.index, text: c.item.text, error: '已取消' }));
+  const completedCount = chunks.length - failedChunks.length - cancelledChunks.length;
+
+  return { profiles, totalChunks, completedCount, failedChunks, cancelledChunks, mergedCount };
+};
+
 // --- Main Export with Sliding Window Logic ---
 export const extractProfilesFromText = async (
   fullText: string, 
-  apiKey: string,
-  onProgress?: (current: number, total: number) => void
-): Promise<ParsedProfile[]> => {
-  if (!apiKey) throw new Error("请输入 OpenRouter API Key");
-
-  // 1. Split text into chunks with OVERLAP
-  const lines = fullText.split('\n');
-  const CHUNK_SIZE = 500; // Large window: 500 lines
-  const OVERLAP_SIZE = 10; // Safety overlap: 10 lines
-  const STEP_SIZE = CHUNK_SIZE - OVERLAP_SIZE; // Step: 490 lines
-  
-  const chunks: string[] = [];
-  
-  // Sliding window loop
-  for (let i = 0; i < lines.length; i += STEP_SIZE) {
-    const chunk = lines.slice(i, i + CHUNK_SIZE).join('\n');
-    if (chunk.trim()) {
-      chunks.push(chunk);
-    }
-    // Break if we've reached the end of the lines
-    if (i + CHUNK_SIZE >= lines.length) break;
-  }
+  config: LlmConfig,
+  onProgress?: (current: number, total: number) => void,
+  options: BatchJobOptions = {}
+): Promise<ExtractionResult> => {
+  const configError = validateLlmConfig(config);
+  if (configError) throw new Error(configError);
 
-  console.log(`[Batching] Input split into ${chunks.length} chunks (Size: ${CHUNK_SIZE}, Overlap: ${OVERLAP_SIZE}).`);
-  
-  let allProfiles: ParsedProfile[] = [];
+  // 1. Split text into token-budgeted chunks with OVERLAP
+  const chunks = chunkTextByTokens(fullText, options.chunking || { maxTokens: DEFAULT_CHUNK_TOKENS, overlapTokens: DEFAULT_OVERLAP_TOKENS });
 
-  // 2. Process chunks sequentially
-  for (let i = 0; i < chunks.length; i++) {
-    if (onProgress) onProgress(i + 1, chunks.length);
-    
-    try {
-      console.log(`[Batching] Processing chunk ${i + 1}/${chunks.length}...`);
-      const batchProfiles = await processSingleBatch(chunks[i], apiKey);
-      allProfiles = [...allProfiles, ...batchProfiles];
-    } catch (error) {
-      console.error(`[Batching] Chunk ${i + 1} failed:`, error);
-      // Continue to next chunk on error to maximize data recovery
-    }
-  }
+  // 2. Process chunks in parallel
+  return runExtractionChunks(
+    chunks.map((text, index) => ({ index, text })),
+    chunks.length,
+    config,
+    onProgress,
+    options
+  );
+};
+
+// Re-run only the chunks that failed (or were cancelled) in a previous extraction
+export const retryFailedChunks = async (
+  failedChunks: FailedChunk[],
+  totalChunks: number,
+  config: LlmConfig,
+  onProgress?: (current: number, total: number) => void,
+  options: BatchJobOptions = {}
+): Promise<ExtractionResult> => {
+  const configError = validateLlmConfig(config);
+  if (configError) throw new Error(configError);
 
-  return allProfiles;
+  return runExtractionChunks(failedChunks, totalChunks, config, onProgress, options);
+};
+
+// Rows per filter request; keeps the answer small enough to come back intact
+const FILTER_MAX_ROWS_PER_BATCH = 50;
+
+export interface FilterJobOptions extends BatchJobOptions {
+  maxTokens?: number; // Estimated input tokens per filter request
+  // Called as soon as a batch is decided, so the caller can apply it before later batches finish
+  onBatchComplete?: (verdicts: RelevanceVerdict[]) => void;
+}
+
+const toVerdict = (raw: unknown, id: number | string): RelevanceVerdict => {
+  const fields: Record<string, unknown> = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const confidence = Number(fields.confidence);
+  const category = RELEVANCE_CATEGORIES.find(c => c === fields.category);
+  return {
+    id,
+    verdict: fields.verdict === 'remove' ? 'remove' : 'keep',
+    category: category || '无关',
+    confidence: isNaN(confidence) ? 0 : Math.max(0, Math.min(1, confidence)),
+    reason: String(fields.reason ?? '').trim()
+  };
+};
+
+const filterSingleBatch = async (
+  rows: RelevanceInput[],
+  config: LlmConfig,
+  systemPrompt: string,
+  signal?: AbortSignal
+): Promise<RelevanceVerdict[]> => {
+  const contentStr = await requestStructuredCompletion(config, {
+    systemPrompt,
+    userContent: JSON.stringify(rows),
+    jsonSchema: FILTER_JSON_SCHEMA,
+    signal
+  });
+  const parsedObj = safeJsonParse(contentStr || "{}", "Filter");
+  const rawVerdicts: unknown[] = Array.isArray(parsedObj?.verdicts) ? parsedObj.verdicts : [];
+
+  // Only accept verdicts for IDs that were actually in this batch; compare as strings since models may echo numbers as text.
+  // Rows the model skipped get no verdict and stay unverified for the next run.
+  const byId = new Map(rawVerdicts.map(v => [String(v && typeof v === 'object' ? (v as { id?: unknown }).id : undefined), v]));
+  return rows
+    .filter(r => byId.has(String(r.id)))
+    .map(r => toVerdict(byId.get(String(r.id)), r.id));
 };
 
 export const filterIrrelevantProfiles = async (
-  rows: { id: number | string, text: string }[], 
-  apiKey: string,
-  customPrompt?: string
-): Promise<any[]> => {
-  if (!apiKey) throw new Error("请输入 OpenRouter API Key");
+  rows: RelevanceInput[], 
+  config: LlmConfig,
+  customPrompt?: string,
+  onProgress?: (current: number, total: number) => void,
+  options: FilterJobOptions = {}
+): Promise<FilterRunResult> => {
+  const configError = validateLlmConfig(config);
+  if (configError) throw new Error(configError);
 
   // Use Custom prompt if provided, otherwise default to the exported constant
-  const systemPrompt = customPrompt || SYSTEM_PROMPT_FILTER;
+  const systemPrompt = (customPrompt || SYSTEM_PROMPT_FILTER) + FILTER_OUTPUT_INSTRUCTIONS;
 
-  try {
-    const response = await fetch(OPENROUTER_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": window.location.origin,
-        "X-Title": "Data Cleaner Tool"
-      },
-      body: JSON.stringify({
-        model: MODEL_NAME,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: JSON.stringify(rows) }
-        ],
-        response_format: {
-          type: "json_schema",
-          json_schema: FILTER_JSON_SCHEMA
-        },
-        max_tokens: 64000
-      })
-    });
-
-    const responseBodyText = await response.text();
-    
-    if (!response.ok) {
-       throw new Error(`API Error: ${response.status}`);
-    }
+  // Batch by serialized size so a few thousand rows never go out as one request
+  const batches = chunkItemsByTokens(rows, r => JSON.stringify(r), options.maxTokens || DEFAULT_CHUNK_TOKENS, FILTER_MAX_ROWS_PER_BATCH);
 
-    const data = JSON.parse(responseBodyText);
-    const contentStr = data.choices?.[0]?.message?.content;
-    const parsedObj = safeJsonParse(contentStr || "{}", "Filter");
+  const flaggedIds: (number | string)[] = [];
+  const verifiedIds: (number | string)[] = [];
+  let skippedCount = 0;
 
-    return parsedObj?.ids_to_remove || [];
+  const { failures, cancelled } = await runBatches(
+    batches,
+    async (batch, _index, signal) => {
+      const verdicts = await filterSingleBatch(batch, config, systemPrompt, signal);
+      verdicts.forEach(v => (v.verdict === 'remove' ? flaggedIds : verifiedIds).push(v.id));
+      skippedCount += batch.length - verdicts.length;
+      if (options.onBatchComplete) options.onBatchComplete(verdicts);
+      return verdicts;
+    },
+    { concurrency: options.concurrency, context: "Filter", signal: options.signal, onProgress }
+  );
 
-  } catch (error) {
-    console.error("[Filter] Fatal Error:", error);
-    throw error;
-  }
-};
\ No newline at end of file
+  return {
+    totalBatches: batches.length,
+    completedCount: batches.length - failures.length - cancelled.length,
+    failedCount: failures.length,
+    cancelledCount: cancelled.length,
+    flaggedIds,
+    verifiedIds,
+    skippedCount,
+    lastError: failures.length > 0 ? failures[failures.length - 1].error : undefined
+  };
+};
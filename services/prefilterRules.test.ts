@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createPrefilterRule, runPrefilter, validatePrefilterRule } from './prefilterRules';
+import { makeRow } from './testRows';
+
+describe('runPrefilter', () => {
+  const rules = [
+    createPrefilterRule({ pattern: '顺丰|快递网点', action: 'defer' }),
+    createPrefilterRule({ pattern: '双清包税，海外仓', action: 'keep', category: '物流' }),
+    createPrefilterRule({ field: '用户名', pattern: '吃播|美食', action: 'remove' })
+  ];
+  const rows = [
+    makeRow(1, { 用户名: '美线专家', 简介: '双清包税 门到门' }),
+    makeRow(2, { 用户名: '深夜美食', 简介: '家常菜' }),
+    makeRow(3, { 用户名: '顺丰网点', 简介: '海外仓' }),
+    makeRow(4, { 用户名: '普通账号', 简介: '美食分享' })
+  ];
+
+  it('decides rows by the first matching rule and defers the rest to the AI', () => {
+    const { verdicts, deferred, hits } = runPrefilter(rows, rules);
+
+    expect(verdicts).toEqual([
+      { id: 1, verdict: 'keep', category: '物流', confidence: 1, reason: '本地规则 #2 命中“双清包税”' },
+      { id: 2, verdict: 'remove', category: '无关', confidence: 1, reason: '本地规则 #3 命中“美食”' }
+    ]);
+    // Row 3 hits the defer rule before the keep rule; row 4 only mentions 美食 in its bio
+    expect(deferred.map(r => r._internal_id)).toEqual([3, 4]);
+    expect(hits).toEqual([1, 1, 1]);
+  });
+
+  it('matches regex rules case-insensitively and skips disabled or invalid rules', () => {
+    const { verdicts } = runPrefilter([makeRow(1, { 简介: 'FBA 头程' })], [
+      createPrefilterRule({ pattern: 'fba', action: 'remove', enabled: false }),
+      createPrefilterRule({ pattern: '(', isRegex: true, action: 'remove' }),
+      createPrefilterRule({ field: '简介', pattern: '^fba\\s', isRegex: true, action: 'keep' })
+    ]);
+
+    expect(verdicts.map(v => [v.verdict, v.category])).toEqual([['keep', '规则保留']]);
+  });
+});
+
+describe('validatePrefilterRule', () => {
+  it('reports empty patterns and bad regexes of enabled rules only', () => {
+    expect(validatePrefilterRule(createPrefilterRule({ pattern: ' ' }))).toBe('规则内容为空');
+    expect(validatePrefilterRule(createPrefilterRule({ pattern: '[', isRegex: true }))).toMatch(/^正则表达式无效/);
+    expect(validatePrefilterRule(createPrefilterRule({ pattern: '[', isRegex: true, enabled: false }))).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { CleanerRow, PrefilterAction, PrefilterField, PrefilterRule, RelevanceVerdict } from "../types";
+
+// Local keyword/regex rules run before the AI relevance check.
+// Obvious cases ("双清包税", a food livestream) are decided here for free and always the same way;
+// only the rows no rule decides are sent to the model.
+
+export const PREFILTER_ACTION_LABELS: Record<PrefilterAction, string> = {
+  keep: '保留',
+  remove: '建议移除',
+  defer: '交给 AI'
+};
+
+export const PREFILTER_FIELD_LABELS: Record<PrefilterField, string> = {
+  all: '用户名+简介',
+  用户名: '用户名',
+  简介: '简介'
+};
+
+export const createPrefilterRule = (patch: Partial<PrefilterRule> = {}): PrefilterRule => ({
+  id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+  enabled: true,
+  field: 'all',
+  pattern: '',
+  isRegex: false,
+  action: 'keep',
+  category: '',
+  ...patch
+});
+
+export const createDefaultPrefilterRules = (): PrefilterRule[] => [
+  createPrefilterRule({ pattern: '双清包税|海外仓|国际物流|国际货代|FBA头程|专线物流', action: 'keep', category: '物流' }),
+  createPrefilterRule({ pattern: '吃播|探店|美食博主|家常菜|带你吃', action: 'remove', category: '无关' })
+];
+
+const normalize = (text: string) => text.normalize("NFKC").toLowerCase();
+
+const splitKeywords = (pattern: string) =>
+  normalize(pattern).split(/[|,，、]/).map(k => k.trim()).filter(Boolean);
+
+// Returns an error message, or null when the rule can run (disabled rules are not checked)
+export const validatePrefilterRule = (rule: PrefilterRule): string | null => {
+  if (!rule.enabled) return null;
+  if (!rule.pattern.trim()) return '规则内容为空';
+  if (!rule.isRegex) return null;
+  try {
+    new RegExp(rule.pattern, 'i');
+    return null;
+  } catch (e: any) {
+    return `正则表达式无效: ${e.message}`;
+  }
+};
+
+const ruleText = (row: CleanerRow, field: PrefilterField) =>
+  normalize(field === 'all' ? `${row.用户名 ?? ""}\n${row.简介 ?? ""}` : String(row[field] ?? ""));
+
+// Returns the matched text, or null. Invalid rules never match.
+const createRuleMatcher = (rule: PrefilterRule): ((row: CleanerRow) => string | null) => {
+  if (!rule.enabled || validatePrefilterRule(rule)) return () => null;
+  if (rule.isRegex) {
+    const regex = new RegExp(rule.pattern, 'i');
+    return row => ruleText(row, rule.field).match(regex)?.[0] ?? null;
+  }
+  const keywords = splitKeywords(rule.pattern);
+  return row => {
+    const text = ruleText(row, rule.field);
+    return keywords.find(k => text.includes(k)) ?? null;
+  };
+};
+
+export interface PrefilterResult {
+  verdicts: RelevanceVerdict[]; // Rows decided by a keep/remove rule
+  deferred: CleanerRow[]; // Rows for the AI: matched a defer rule or no rule at all
+  hits: number[]; // Per rule (same order as the rules): rows it decided, i.e. first match only
+}
+
+export const runPrefilter = (rows: CleanerRow[], rules: PrefilterRule[]): PrefilterResult => {
+  const matchers = rules.map(createRuleMatcher);
+  const hits = rules.map(() => 0);
+  const verdicts: RelevanceVerdict[] = [];
+  const deferred: CleanerRow[] = [];
+
+  rows.forEach(row => {
+    for (let i = 0; i < rules.length; i++) {
+      const matched = matchers[i](row);
+      if (matched === null) continue;
+      hits[i]++;
+      const rule = rules[i];
+      if (rule.action === 'defer') break;
+      verdicts.push({
+        id: row._internal_id!,
+        verdict: rule.action,
+        category: rule.category.trim() || (rule.action === 'keep' ? '规则保留' : '无关'),
+        confidence: 1,
+        reason: `本地规则 #${i + 1} 命中“${matched}”`
+      });
+      return;
+    }
+    deferred.push(row);
+  });
+
+  return { verdicts, deferred, hits };
+};
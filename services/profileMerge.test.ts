@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedProfile } from '../types';
+import { createExtractField } from './extractSchema';
+import { mergeDuplicateProfiles, normalizeContact, normalizeUsername } from './profileMerge';
+
+const profile = (fields: Partial<ParsedProfile>): ParsedProfile => ({ username: '', douyinId: '', fans: '', bio: '', contact: '', ...fields });
+
+describe('key normalization', () => {
+  it('ignores punctuation, emoji and spacing in usernames', () => {
+    expect(normalizeUsername('示例-国际物流 ')).toBe(normalizeUsername('示例 国际物流🚚'));
+  });
+
+  it('compares phone-like contacts by digits only', () => {
+    expect(normalizeContact('138-0013 8000')).toBe('13800138000');
+    expect(normalizeContact('WeChat ABC')).toBe('wechatabc');
+  });
+});
+
+describe('mergeDuplicateProfiles', () => {
+  it('folds copies from overlapping windows into the most complete one', () => {
+    const { profiles, mergedCount } = mergeDuplicateProfiles([
+      profile({ username: '示例物流', douyinId: 'wuliu', bio: '美线海派双清包税' }),
+      profile({ username: '另一家', douyinId: 'other' }),
+      profile({ username: '示例物流', douyinId: '@WuLiu', fans: '1.2w', contact: '13800138000' })
+    ]);
+
+    expect(mergedCount).toBe(1);
+    expect(profiles).toHaveLength(2);
+    expect(profiles[0]).toMatchObject({ douyinId: '@WuLiu', fans: '1.2w', bio: '美线海派双清包税', contact: '13800138000' });
+  });
+
+  it('merges by username only when 抖音号 and contact do not contradict', () => {
+    const { profiles } = mergeDuplicateProfiles([
+      profile({ username: '小王物流', douyinId: 'a1' }),
+      profile({ username: '小王物流', douyinId: 'b2' }),
+      profile({ username: '小王物流', bio: '只有简介' })
+    ]);
+
+    expect(profiles.map(p => p.douyinId)).toEqual(['a1', 'b2']);
+    expect(profiles[0].bio).toBe('只有简介');
+  });
+
+  it('gap-fills custom extraction fields too', () => {
+    const { profiles } = mergeDuplicateProfiles([
+      profile({ username: '示例物流', douyinId: 'wuliu', bio: '美线海派', location: '' }),
+      profile({ douyinId: 'wuliu', location: '深圳' })
+    ]);
+
+    expect(profiles[0]).toMatchObject({ bio: '美线海派', location: '深圳' });
+  });
+
+  it('treats the "not found" placeholders of custom fields as empty', () => {
+    const fields = [
+      createExtractField({ key: 'likes', column: '获赞数', type: 'number', description: '获赞总数' }),
+      createExtractField({ key: 'verified', column: '已认证', type: 'boolean', description: '是否认证' })
+    ];
+    const { profiles } = mergeDuplicateProfiles([
+      profile({ username: '示例物流', douyinId: 'wuliu', bio: '美线海派', likes: -1, verified: false }),
+      profile({ douyinId: 'wuliu', likes: 35000, verified: true })
+    ], fields);
+
+    expect(profiles[0]).toMatchObject({ bio: '美线海派', likes: 35000, verified: true });
+  });
+});
@@ -0,0 +1,119 @@
+import { ExtractField, ParsedProfile } from "../types";
+import { isExtractPlaceholder } from "./extractSchema";
+
+// Deterministic merge for profiles extracted from overlapping sliding windows.
+// The same account is often extracted twice (once at the end of chunk N, once at the start of chunk N+1),
+// sometimes with one copy missing fields. We cluster those copies and keep one record per account.
+
+// --- Key Normalization ---
+
+export const normalizeDouyinId = (val: unknown): string =>
+  String(val ?? "").trim().replace(/^@/, "").toLowerCase();
+
+// Strip whitespace, punctuation and emoji so "示例-国际物流 " and "示例 国际物流🚚" compare equal
+export const normalizeUsername = (val: unknown): string =>
+  String(val ?? "")
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, "");
+
+// Phone-like contacts compare by digits only; anything else (WeChat ID, email) by lower-case text
+export const normalizeContact = (val: unknown): string => {
+  const text = String(val ?? "").normalize("NFKC").trim().toLowerCase();
+  if (!text) return "";
+  const digits = text.replace(/\D/g, "");
+  if (digits.length >= 7 && digits.length / text.replace(/[\s+\-()]/g, "").length > 0.8) return digits;
+  return text.replace(/\s+/g, "");
+};
+
+const PROFILE_FIELDS = ["username", "douyinId", "fans", "bio", "contact"];
+
+const isFilled = (val: unknown) => String(val ?? "").trim() !== "";
+
+// Completeness: number of filled fields first, then total text length (a full bio beats a truncated one)
+const completenessScore = (p: ParsedProfile): [number, number] => [
+  PROFILE_FIELDS.filter(f => isFilled(p[f])).length,
+  PROFILE_FIELDS.reduce((sum, f) => sum + String(p[f] ?? "").trim().length, 0)
+];
+
+const isMoreComplete = (a: ParsedProfile, b: ParsedProfile) => {
+  const [filledA, lengthA] = completenessScore(a);
+  const [filledB, lengthB] = completenessScore(b);
+  return filledA !== filledB ? filledA > filledB : lengthA > lengthB;
+};
+
+interface Cluster {
+  members: ParsedProfile[];
+  douyinId: string;
+  username: string;
+  contact: string;
+}
+
+// Two records can only be the same account if their non-empty IDs and contacts agree
+const conflicts = (a: string, b: string) => a !== "" && b !== "" && a !== b;
+
+export interface MergeResult {
+  profiles: ParsedProfile[];
+  mergedCount: number; // How many input records were folded into another one
+}
+
+// extractFields are the custom fields in the profiles; their "not found" placeholders (-1, false) count as empty
+export const mergeDuplicateProfiles = (profiles: ParsedProfile[], extractFields: ExtractField[] = []): MergeResult => {
+  const clusters: Cluster[] = [];
+  const byDouyinId = new Map<string, Cluster>();
+  const byUsername = new Map<string, Cluster[]>();
+
+  profiles.forEach(profile => {
+    const douyinId = normalizeDouyinId(profile.douyinId);
+    const username = normalizeUsername(profile.username);
+    const contact = normalizeContact(profile.contact);
+
+    // 1. Same 抖音号 is always the same account
+    let cluster = douyinId ? byDouyinId.get(douyinId) : undefined;
+
+    // 2. Otherwise same normalized username, as long as 抖音号 and contact don't contradict each other
+    if (!cluster && username) {
+      cluster = (byUsername.get(username) || []).find(c =>
+        !conflicts(c.douyinId, douyinId) && !conflicts(c.contact, contact)
+      );
+    }
+
+    if (!cluster) {
+      cluster = { members: [], douyinId: "", username: "", contact: "" };
+      clusters.push(cluster);
+    }
+
+    cluster.members.push(profile);
+    if (!cluster.username && username) {
+      cluster.username = username;
+      byUsername.set(username, [...(byUsername.get(username) || []), cluster]);
+    }
+    if (!cluster.douyinId && douyinId) {
+      cluster.douyinId = douyinId;
+      byDouyinId.set(douyinId, cluster);
+    }
+    if (!cluster.contact && contact) cluster.contact = contact;
+  });
+
+  const fieldTypes = new Map(extractFields.map(f => [f.key.trim(), f.type]));
+  const isKnown = (p: ParsedProfile, field: string) => {
+    const type = fieldTypes.get(field);
+    return isFilled(p[field]) && !(type && isExtractPlaceholder(p[field], type));
+  };
+
+  const merged = clusters.map(cluster => {
+    // Keep the most complete record (first one wins ties), then fill its gaps from the other copies
+    const survivor = cluster.members.reduce((best, p) => isMoreComplete(p, best) ? p : best);
+    const result: ParsedProfile = { ...survivor };
+    // Custom extraction fields are gap-filled the same way as the built-in ones
+    const fields = new Set(cluster.members.flatMap(p => Object.keys(p)));
+    fields.forEach(field => {
+      if (isKnown(result, field)) return;
+      const donor = cluster.members.find(p => isKnown(p, field));
+      if (donor) result[field] = donor[field];
+    });
+    return result;
+  });
+
+  return { profiles: merged, mergedCount: profiles.length - merged.length };
+};
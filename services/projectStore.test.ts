@@ -0,0 +1,58 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProjectSettings } from '../types';
+import { EMPTY_HISTORY, HistoryState, createHistoryEntry, pushHistory } from './historyStack';
+import { createProject, deleteProject, loadProjectHistory, saveProjectHistory } from './projectStore';
+import { makeRow } from './testRows';
+
+const settings = {} as ProjectSettings;
+const row = (id: number, name: string) => makeRow(id, { 用户名: name });
+
+const edit = (history: HistoryState, from: string, to: string, coalesceKey?: string) =>
+  pushHistory(history, createHistoryEntry([row(1, from)], [row(1, to)], `edit ${to}`, coalesceKey)!);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('project history persistence', () => {
+  it('round-trips the undo and redo stacks', async () => {
+    const project = await createProject('p', settings);
+    let history = edit(EMPTY_HISTORY, 'a', 'b');
+    history = edit(history, 'b', 'c');
+    history = { past: history.past.slice(0, 1), future: history.past.slice(1) };
+    await saveProjectHistory(project.id, history);
+
+    expect(await loadProjectHistory(project.id)).toEqual(history);
+  });
+
+  it('writes only the entries that changed since the last save', async () => {
+    const project = await createProject('p', settings);
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 10; i++) history = edit(history, `v${i}`, `v${i + 1}`);
+    await saveProjectHistory(project.id, history);
+
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put');
+    await saveProjectHistory(project.id, edit(history, 'v10', 'v11'));
+
+    // The new entry plus the id index
+    expect(put).toHaveBeenCalledTimes(2);
+  });
+
+  it('deletes entries that fell off the stack', async () => {
+    const project = await createProject('p', settings);
+    const history = edit(edit(EMPTY_HISTORY, 'a', 'b'), 'b', 'c');
+    await saveProjectHistory(project.id, history);
+    const trimmed = { past: history.past.slice(1), future: [] };
+    await saveProjectHistory(project.id, trimmed);
+
+    expect(await loadProjectHistory(project.id)).toEqual(trimmed);
+  });
+
+  it('removes the history with the project', async () => {
+    const project = await createProject('p', settings, [], edit(EMPTY_HISTORY, 'a', 'b'));
+    await deleteProject(project.id);
+
+    expect(await loadProjectHistory(project.id)).toEqual(EMPTY_HISTORY);
+  });
+});
@@ -0,0 +1,239 @@
+import { CleanerRow, ProjectMeta, ProjectSettings } from "../types";
+import { HistoryEntry, HistoryState, EMPTY_HISTORY } from "./historyStack";
+
+// IndexedDB persistence for named projects.
+// Rows, undo history and project metadata live in separate stores, so listing projects never loads rows
+// and there is no 5MB localStorage cap. Each undo entry is its own record, so saving after an edit
+// writes the one entry that changed instead of the whole history.
+
+const DB_NAME = 'douyin_cleaner';
+const DB_VERSION = 1;
+const META_STORE = 'projects';
+const ROWS_STORE = 'project_rows';
+const HISTORY_STORE = 'project_history'; // Project id -> entry ids of the undo/redo stacks
+const HISTORY_ENTRIES_STORE = 'project_history_entries'; // "projectId/entryId" -> HistoryEntry
+
+const ACTIVE_PROJECT_KEY = 'active_project_id';
+// Pre-IndexedDB keys, migrated into the first project on first load
+const LEGACY_ROWS_KEY = 'cleaner_db';
+const LEGACY_HISTORY_KEY = 'cleaner_history';
+
+export interface StoredProject extends ProjectMeta {
+  settings: ProjectSettings;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(ROWS_STORE)) db.createObjectStore(ROWS_STORE);
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) db.createObjectStore(HISTORY_STORE);
+        if (!db.objectStoreNames.contains(HISTORY_ENTRIES_STORE)) db.createObjectStore(HISTORY_ENTRIES_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run `body` in one transaction and resolve when it commits
+const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await body(tx);
+  await done;
+  return result;
+};
+
+const createProjectId = () => `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// --- History Records ---
+
+interface StoredHistoryIndex {
+  past: string[];
+  future: string[];
+}
+
+const entryKey = (projectId: string, entryId: string) => `${projectId}/${entryId}`;
+const projectEntryRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+// Entries as last written, per project. Entries are immutable (coalescing replaces the object),
+// so an identity check tells which ones need writing.
+const savedEntries = new Map<string, Map<string, HistoryEntry>>();
+
+// Put new/changed entries, delete entries that fell off the stacks, then rewrite the small id index
+const writeHistory = (tx: IDBTransaction, projectId: string, history: HistoryState) => {
+  const saved = savedEntries.get(projectId) || new Map<string, HistoryEntry>();
+  const current = new Map<string, HistoryEntry>();
+  [...history.past, ...history.future].forEach(entry => current.set(entry.id, entry));
+
+  const entryStore = tx.objectStore(HISTORY_ENTRIES_STORE);
+  current.forEach((entry, entryId) => {
+    if (saved.get(entryId) !== entry) entryStore.put(entry, entryKey(projectId, entryId));
+  });
+  saved.forEach((_, entryId) => {
+    if (!current.has(entryId)) entryStore.delete(entryKey(projectId, entryId));
+  });
+
+  const index: StoredHistoryIndex = { past: history.past.map(e => e.id), future: history.future.map(e => e.id) };
+  tx.objectStore(HISTORY_STORE).put(index, projectId);
+  return current;
+};
+
+// --- Projects ---
+
+export const listProjects = (): Promise<StoredProject[]> =>
+  runTransaction([META_STORE], 'readonly', async tx => {
+    const projects = await promisifyRequest<StoredProject[]>(tx.objectStore(META_STORE).getAll());
+    return projects.sort((a, b) => a.createdAt - b.createdAt);
+  });
+
+export const createProject = async (
+  name: string,
+  settings: ProjectSettings,
+  rows: CleanerRow[] = [],
+  history: HistoryState = EMPTY_HISTORY
+): Promise<StoredProject> => {
+  const now = Date.now();
+  const project: StoredProject = { id: createProjectId(), name, createdAt: now, updatedAt: now, rowCount: rows.length, settings };
+  const written = await runTransaction([META_STORE, ROWS_STORE, HISTORY_STORE, HISTORY_ENTRIES_STORE], 'readwrite', tx => {
+    tx.objectStore(META_STORE).put(project);
+    tx.objectStore(ROWS_STORE).put(rows, project.id);
+    return writeHistory(tx, project.id, history);
+  });
+  savedEntries.set(project.id, written);
+  return project;
+};
+
+export const updateProjectMeta = (id: string, changes: Partial<Omit<StoredProject, 'id'>>): Promise<StoredProject | null> =>
+  runTransaction([META_STORE], 'readwrite', async tx => {
+    const store = tx.objectStore(META_STORE);
+    const existing = await promisifyRequest<StoredProject | undefined>(store.get(id));
+    if (!existing) return null;
+    const updated: StoredProject = { ...existing, ...changes, id };
+    store.put(updated);
+    return updated;
+  });
+
+export const duplicateProject = async (id: string, name: string): Promise<StoredProject | null> => {
+  const source = await runTransaction([META_STORE], 'readonly', tx =>
+    promisifyRequest<StoredProject | undefined>(tx.objectStore(META_STORE).get(id))
+  );
+  if (!source) return null;
+  // The copy starts with a fresh undo history
+  return createProject(name, source.settings, await loadProjectRows(id));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runTransaction([META_STORE, ROWS_STORE, HISTORY_STORE, HISTORY_ENTRIES_STORE], 'readwrite', tx => {
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(ROWS_STORE).delete(id);
+    tx.objectStore(HISTORY_STORE).delete(id);
+    tx.objectStore(HISTORY_ENTRIES_STORE).delete(projectEntryRange(id));
+  });
+  savedEntries.delete(id);
+};
+
+// --- Rows & History ---
+
+export const loadProjectRows = (id: string): Promise<CleanerRow[]> =>
+  runTransaction([ROWS_STORE], 'readonly', async tx =>
+    (await promisifyRequest<CleanerRow[] | undefined>(tx.objectStore(ROWS_STORE).get(id))) || []
+  );
+
+export const saveProjectRows = (id: string, rows: CleanerRow[]): Promise<void> =>
+  runTransaction([META_STORE, ROWS_STORE], 'readwrite', async tx => {
+    tx.objectStore(ROWS_STORE).put(rows, id);
+    const metaStore = tx.objectStore(META_STORE);
+    const meta = await promisifyRequest<StoredProject | undefined>(metaStore.get(id));
+    if (meta) metaStore.put({ ...meta, rowCount: rows.length, updatedAt: Date.now() });
+  });
+
+export const loadProjectHistory = async (id: string): Promise<HistoryState> => {
+  const history = await runTransaction([HISTORY_STORE, HISTORY_ENTRIES_STORE], 'readonly', async tx => {
+    const index = await promisifyRequest<StoredHistoryIndex | undefined>(tx.objectStore(HISTORY_STORE).get(id));
+    if (!index) return EMPTY_HISTORY;
+
+    const entryStore = tx.objectStore(HISTORY_ENTRIES_STORE);
+    const loadEntries = async (ids: string[]) =>
+      (await Promise.all(ids.map(entryId => promisifyRequest<HistoryEntry | undefined>(entryStore.get(entryKey(id, entryId))))))
+        .filter((e): e is HistoryEntry => !!e);
+    const [past, future] = await Promise.all([loadEntries(index.past), loadEntries(index.future)]);
+    return { past, future };
+  });
+
+  savedEntries.set(id, new Map([...history.past, ...history.future].map(e => [e.id, e])));
+  return history;
+};
+
+export const saveProjectHistory = async (id: string, history: HistoryState): Promise<void> => {
+  const written = await runTransaction([HISTORY_STORE, HISTORY_ENTRIES_STORE], 'readwrite', tx => writeHistory(tx, id, history));
+  savedEntries.set(id, written);
+};
+
+// --- Active Project ---
+
+export const getActiveProjectId = () => localStorage.getItem(ACTIVE_PROJECT_KEY);
+export const setActiveProjectId = (id: string) => localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+
+// --- First Load ---
+
+// Memoized so a double-invoked effect (React StrictMode) cannot create the first project twice
+let initPromise: Promise<StoredProject[]> | null = null;
+
+// Returns the project list, creating the first project on first run. Data from the old single-table
+// localStorage keys is moved into that project, then the old keys are removed.
+export const initProjects = (defaultSettings: ProjectSettings, initialRows: CleanerRow[]): Promise<StoredProject[]> => {
+  if (!initPromise) {
+    initPromise = initProjectsOnce(defaultSettings, initialRows).catch(e => {
+      initPromise = null;
+      throw e;
+    });
+  }
+  return initPromise;
+};
+
+const initProjectsOnce = async (defaultSettings: ProjectSettings, initialRows: CleanerRow[]): Promise<StoredProject[]> => {
+  const projects = await listProjects();
+  if (projects.length > 0) return projects;
+
+  let rows = initialRows;
+  let history = EMPTY_HISTORY;
+  try {
+    const legacyRows = localStorage.getItem(LEGACY_ROWS_KEY);
+    if (legacyRows) rows = JSON.parse(legacyRows);
+    const legacyHistory = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (legacyHistory) history = JSON.parse(legacyHistory);
+  } catch (e) {
+    console.warn("[ProjectStore] Failed to read legacy localStorage data.", e);
+  }
+
+  const project = await createProject('默认项目', defaultSettings, rows, history);
+  localStorage.removeItem(LEGACY_ROWS_KEY);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return [project];
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { PromptTemplate } from '../types';
+import { addPromptVersion, mergePromptTemplates, parsePromptTemplates, resolveDefaultPrompt, serializePromptTemplates } from './promptLibrary';
+import { SYSTEM_PROMPT_FILTER } from './openRouterService';
+
+const template = (id: string, ...versions: [number, string][]): PromptTemplate => ({
+  id,
+  name: id,
+  kind: 'filter',
+  versions: versions.map(([savedAt, content]) => ({ content, savedAt, note: '' }))
+});
+
+describe('addPromptVersion', () => {
+  it('adds a version only when the content changed', () => {
+    const original = template('t', [1, 'A']);
+    expect(addPromptVersion(original, 'A')).toBe(original);
+    expect(addPromptVersion(original, 'B', '改').versions.map(v => [v.content, v.note])).toEqual([['A', ''], ['B', '改']]);
+  });
+});
+
+describe('resolveDefaultPrompt', () => {
+  it('uses the latest version of the default template, else the built-in prompt', () => {
+    const templates = [template('t', [1, 'A'], [2, 'B'])];
+    expect(resolveDefaultPrompt('filter', 't', templates)).toBe('B');
+    expect(resolveDefaultPrompt('extract', 't', templates)).not.toBe('B');
+    expect(resolveDefaultPrompt('filter', 'missing', templates)).toBe(SYSTEM_PROMPT_FILTER);
+  });
+});
+
+describe('parsePromptTemplates', () => {
+  it('round-trips an export and drops malformed entries', () => {
+    const text = serializePromptTemplates([template('t', [1, 'A'])]);
+    expect(parsePromptTemplates(text)).toEqual([template('t', [1, 'A'])]);
+    expect(parsePromptTemplates(JSON.stringify([{ name: 'x', kind: 'filter', versions: [] }, template('t', [1, 'A'])]))).toHaveLength(1);
+  });
+
+  it('throws readable errors for files that are not template exports', () => {
+    expect(() => parsePromptTemplates('{')).toThrow('不是有效的 JSON 文件');
+    expect(() => parsePromptTemplates('{}')).toThrow('文件中没有模板');
+    expect(() => parsePromptTemplates('[{"name":"x"}]')).toThrow('文件中没有有效的模板');
+  });
+});
+
+describe('mergePromptTemplates', () => {
+  it('adds new templates and merges unseen versions into known ones by time', () => {
+    const { templates, added, updated } = mergePromptTemplates(
+      [template('t', [1, 'A'], [3, 'C'])],
+      [template('t', [1, 'A'], [2, 'B']), template('u', [1, 'X'])]
+    );
+
+    expect([added, updated]).toEqual([1, 1]);
+    expect(templates[0].versions.map(v => v.content)).toEqual(['A', 'B', 'C']);
+    expect(templates[1].id).toBe('u');
+  });
+});
@@ -0,0 +1,137 @@
+import { PromptKind, PromptTemplate, PromptVersion } from "../types";
+import { SYSTEM_PROMPT_EXTRACT, SYSTEM_PROMPT_FILTER } from "./openRouterService";
+
+// Shared library of extraction/filter prompts with version history.
+// The library is global to the machine (like the remembered column mappings); each project keeps its own
+// working prompt in ProjectSettings and may name a library template as its default.
+
+const STORAGE_KEY = 'prompt_templates';
+const EXPORT_FORMAT = 'douyin-cleaner-prompts';
+
+export const PROMPT_KIND_LABELS: Record<PromptKind, string> = {
+  extract: '提取',
+  filter: '清洗'
+};
+
+const BUILTIN_PROMPTS: Record<PromptKind, string> = {
+  extract: SYSTEM_PROMPT_EXTRACT,
+  filter: SYSTEM_PROMPT_FILTER
+};
+
+const seedTemplate = (id: string, name: string, kind: PromptKind, content: string): PromptTemplate => ({
+  id,
+  name,
+  kind,
+  versions: [{ content, savedAt: 0, note: '内置' }]
+});
+
+const SEED_TEMPLATES: PromptTemplate[] = [
+  seedTemplate('builtin_extract', '默认提取', 'extract', SYSTEM_PROMPT_EXTRACT),
+  seedTemplate('builtin_filter', '国际物流 (通用)', 'filter', SYSTEM_PROMPT_FILTER),
+  seedTemplate('builtin_filter_warehouse', '仅海外仓', 'filter', `
+你是一个跨境物流行业的数据分析师。请分析提供的账号列表，只保留海外仓相关的账号。
+
+【判定标准】
+- 保留：海外仓、一件代发、仓储配送、FBA 中转仓、退货换标等海外仓储服务商。
+- 删除：只做头程运输的货代/专线、快递网点、与海外仓无关的其他账号。
+`),
+  seedTemplate('builtin_filter_us_line', '仅美国专线', 'filter', `
+你是一个国际物流行业的数据分析师。请分析提供的账号列表，只保留做美国线的物流账号。
+
+【判定标准】
+- 保留：美国专线、美线海派/空派、美森快船、美国 FBA 头程、美国双清包税。
+- 删除：只做欧洲/东南亚/中东等其他线路的物流账号，以及与物流无关的账号。
+`)
+];
+
+const isTemplate = (t: any): t is PromptTemplate =>
+  t && typeof t.name === 'string' && (t.kind === 'extract' || t.kind === 'filter') &&
+  Array.isArray(t.versions) && t.versions.length > 0 && t.versions.every((v: any) => typeof v?.content === 'string');
+
+export const loadPromptTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return SEED_TEMPLATES;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isTemplate) : SEED_TEMPLATES;
+  } catch (e) {
+    console.warn("[PromptLibrary] Failed to parse saved templates.", e);
+    return SEED_TEMPLATES;
+  }
+};
+
+export const savePromptTemplates = (templates: PromptTemplate[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+
+const createId = () => `prompt_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+
+export const getLatestContent = (template: PromptTemplate) => template.versions[template.versions.length - 1].content;
+
+export const createPromptTemplate = (name: string, kind: PromptKind, content: string): PromptTemplate => ({
+  id: createId(),
+  name,
+  kind,
+  versions: [{ content, savedAt: Date.now(), note: '' }]
+});
+
+// Returns the same template when the content is unchanged, so saving twice doesn't add empty versions
+export const addPromptVersion = (template: PromptTemplate, content: string, note = ''): PromptTemplate =>
+  getLatestContent(template) === content
+    ? template
+    : { ...template, versions: [...template.versions, { content, savedAt: Date.now(), note }] };
+
+// What 恢复默认 / a reset goes back to: the project's default template, else the built-in prompt
+export const resolveDefaultPrompt = (kind: PromptKind, defaultId: string | undefined, templates: PromptTemplate[]) => {
+  const template = templates.find(t => t.id === defaultId && t.kind === kind);
+  return template ? getLatestContent(template) : BUILTIN_PROMPTS[kind];
+};
+
+// --- Sharing as JSON ---
+
+export const serializePromptTemplates = (templates: PromptTemplate[]) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: 1, templates }, null, 2);
+
+// Throws with a readable message when the file isn't a template export
+export const parsePromptTemplates = (text: string): PromptTemplate[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON 文件');
+  }
+  const list = Array.isArray(data) ? data : data?.templates;
+  if (!Array.isArray(list)) throw new Error('文件中没有模板');
+  const templates = list.filter(isTemplate).map((t): PromptTemplate => ({
+    id: typeof t.id === 'string' && t.id ? t.id : createId(),
+    name: t.name,
+    kind: t.kind,
+    versions: t.versions.map((v: any): PromptVersion => ({
+      content: v.content,
+      savedAt: Number(v.savedAt) || 0,
+      note: typeof v.note === 'string' ? v.note : ''
+    }))
+  }));
+  if (templates.length === 0) throw new Error('文件中没有有效的模板');
+  return templates;
+};
+
+// Templates already in the library (same id) gain the versions they don't have yet; others are added
+export const mergePromptTemplates = (existing: PromptTemplate[], imported: PromptTemplate[]) => {
+  const byId = new Map(existing.map(t => [t.id, t]));
+  let added = 0;
+  let updated = 0;
+  imported.forEach(template => {
+    const current = byId.get(template.id);
+    if (!current) {
+      byId.set(template.id, template);
+      added++;
+      return;
+    }
+    const known = new Set(current.versions.map(v => `${v.savedAt}\n${v.content}`));
+    const newVersions = template.versions.filter(v => !known.has(`${v.savedAt}\n${v.content}`));
+    if (newVersions.length === 0) return;
+    byId.set(template.id, { ...current, versions: [...current.versions, ...newVersions].sort((a, b) => a.savedAt - b.savedAt) });
+    updated++;
+  });
+  return { templates: Array.from(byId.values()), added, updated };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { CleanerRow } from '../types';
+import { autoMergeCluster, findDuplicateClusters } from './rowDedupe';
+import { makeRow } from './testRows';
+
+const clusterIds = (rows: CleanerRow[], keys: Parameters<typeof findDuplicateClusters>[1]) =>
+  findDuplicateClusters(rows, keys).map(c => c.rows.map(r => r._internal_id));
+
+describe('findDuplicateClusters', () => {
+  it('clusters rows with the same 抖音号', () => {
+    const rows = [makeRow(1, { 抖音号: '@WuLiu' }), makeRow(2, { 抖音号: 'other' }), makeRow(3, { 抖音号: 'wuliu' })];
+    expect(clusterIds(rows, ['douyinId'])).toEqual([[1, 3]]);
+  });
+
+  it('does not join two accounts with different 抖音号 that share a phone', () => {
+    const rows = [
+      makeRow(1, { 用户名: '深圳分公司', 抖音号: 'sz_branch', 联系方式: '0755-12345678 / 13800138000' }),
+      makeRow(2, { 用户名: '广州分公司', 抖音号: 'gz_branch', 联系方式: '13800138000' })
+    ];
+    expect(findDuplicateClusters(rows, ['douyinId', 'contact'])).toEqual([]);
+  });
+
+  it('does not join two accounts with different 抖音号 that share a WeChat ID', () => {
+    const rows = [
+      makeRow(1, { 抖音号: 'sz_branch', 简介: '微信: company_wx' }),
+      makeRow(2, { 抖音号: 'gz_branch', 简介: '微信: company_wx' })
+    ];
+    expect(findDuplicateClusters(rows, ['contact'])).toEqual([]);
+  });
+
+  it('still joins a row without 抖音号 to the account that shares its phone', () => {
+    const rows = [
+      makeRow(1, { 抖音号: 'sz_branch', 联系方式: '13800138000' }),
+      makeRow(2, { 抖音号: 'gz_branch', 联系方式: '13900139000' }),
+      makeRow(3, { 用户名: '深圳分公司', 联系方式: '138 0013 8000' })
+    ];
+    const clusters = findDuplicateClusters(rows, ['contact']);
+    expect(clusters.map(c => c.rows.map(r => r._internal_id))).toEqual([[1, 3]]);
+    expect(clusters[0].reasons).toEqual(['contact']);
+  });
+
+  it('refuses an indirect link through a row without 抖音号', () => {
+    // Row 3 shares a phone with row 1 and a WeChat ID with row 2; rows 1 and 2 are different accounts
+    const rows = [
+      makeRow(1, { 抖音号: 'sz_branch', 联系方式: '13800138000' }),
+      makeRow(2, { 抖音号: 'gz_branch', 简介: '微信: company_wx' }),
+      makeRow(3, { 联系方式: '13800138000', 简介: '微信: company_wx' })
+    ];
+    expect(clusterIds(rows, ['contact'])).toEqual([[1, 3]]);
+  });
+
+  it('matches names that differ by one character only when fuzzy matching is on', () => {
+    const rows = [makeRow(1, { 用户名: '示例国际物流' }), makeRow(2, { 用户名: '示例国际物流A' }), makeRow(3, { 用户名: '小王' }), makeRow(4, { 用户名: '小李' })];
+    expect(clusterIds(rows, ['username'])).toEqual([]);
+    expect(clusterIds(rows, ['usernameFuzzy'])).toEqual([[1, 2]]);
+  });
+
+  it('does not join names two edits apart that share a one-deletion variant', () => {
+    const rows = [
+      makeRow(1, { 用户名: 'A深圳物流' }),
+      makeRow(2, { 用户名: '深圳物流B' }),
+      makeRow(3, { 用户名: '深圳物流' }),
+      makeRow(4, { 用户名: '深物圳流' }),
+      makeRow(5, { 用户名: '深圳流物' }),
+      makeRow(6, { 用户名: '深圳快递' }),
+      makeRow(7, { 用户名: '深圳快运' })
+    ];
+    // 1 and 2 only meet through row 3, which is one edit from each; swapped characters are two edits
+    expect(clusterIds(rows, ['usernameFuzzy'])).toEqual([[1, 2, 3], [6, 7]]);
+    expect(clusterIds(rows.slice(3), ['usernameFuzzy'])).toEqual([[6, 7]]);
+    expect(clusterIds([rows[0], rows[1]], ['usernameFuzzy'])).toEqual([]);
+  });
+});
+
+describe('autoMergeCluster', () => {
+  it('keeps the most complete row and fills its gaps from the others', () => {
+    const rows = [
+      makeRow(1, { 用户名: '示例物流', 抖音号: 'wuliu', 联系方式: '13800138000' }),
+      makeRow(2, { 用户名: '示例物流', 抖音号: 'wuliu', 粉丝数: '1.2w', 简介: '美线海派双清包税' })
+    ];
+    const [cluster] = findDuplicateClusters(rows, ['douyinId']);
+    const { survivor, removeIds } = autoMergeCluster(cluster);
+
+    expect(survivor).toMatchObject({ _internal_id: 2, 联系方式: '13800138000', 简介: '美线海派双清包税' });
+    expect(removeIds).toEqual([1]);
+  });
+});
@@ -0,0 +1,204 @@
+import { CleanerRow } from "../types";
+import { normalizeDouyinId, normalizeUsername } from "./profileMerge";
+import { extractPhones, extractWechatIds } from "./contactParser";
+
+// Record-level deduplication for the table.
+// Unlike the grid's "筛选唯一项" view, which only hides later copies, this finds clusters of rows that describe the
+// same account and lets the user keep one row per cluster, permanently removing the others.
+
+export type DedupeKey = 'douyinId' | 'contact' | 'username' | 'usernameFuzzy';
+
+export const DEDUPE_KEY_LABELS: Record<DedupeKey, string> = {
+  douyinId: '抖音号',
+  contact: '手机/微信',
+  username: '用户名',
+  usernameFuzzy: '用户名 (相差一个字)'
+};
+
+export interface DuplicateCluster {
+  id: string;
+  rows: CleanerRow[]; // In table order
+  reasons: DedupeKey[]; // Which keys linked the rows
+}
+
+// Fuzzy name matching only applies to longer names; "小王" vs "小李" are different people
+const FUZZY_MIN_LENGTH = 4;
+export const CLUSTER_FIELDS = ['用户名', '抖音号', '粉丝数', '简介', '联系方式'];
+
+const isFilled = (val: unknown) => val !== null && val !== undefined && String(val).trim() !== "";
+
+// --- Union-Find ---
+
+// Each set also tracks the 抖音号 of its members, so a link can be refused when it would join two different
+// accounts, even indirectly through a row that has no 抖音号. Since every link is checked, a set never holds
+// more than one 抖音号.
+const createUnionFind = (douyinIds: string[]) => {
+  const parent = douyinIds.map((_, i) => i);
+  const setDouyinId = [...douyinIds];
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra === rb) return;
+    const root = Math.min(ra, rb);
+    parent[Math.max(ra, rb)] = root;
+    setDouyinId[root] = setDouyinId[ra] || setDouyinId[rb];
+  };
+  const hasConflict = (a: number, b: number) => {
+    const idA = setDouyinId[find(a)];
+    const idB = setDouyinId[find(b)];
+    return idA !== "" && idB !== "" && idA !== idB;
+  };
+  return { find, union, hasConflict };
+};
+
+// --- Key Extraction ---
+
+// Every edit-distance-1 neighbour of two names shares at least one of these variants (symmetric delete),
+// so fuzzy matching stays linear instead of comparing every pair of names. Sharing a variant is necessary but
+// not sufficient ("a深圳物流" / "深圳物流b" share "深圳物流"), so candidates are confirmed with isWithinOneEdit.
+const deletionVariants = (name: string): string[] => {
+  const chars = Array.from(name);
+  const variants = [name];
+  chars.forEach((_, i) => variants.push([...chars.slice(0, i), ...chars.slice(i + 1)].join("")));
+  return variants;
+};
+
+// One insertion, deletion or substitution at most (a swap of two characters is two edits)
+const isWithinOneEdit = (a: string[], b: string[]) => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  let i = 0;
+  while (i < shorter.length && shorter[i] === longer[i]) i++;
+  const skip = shorter.length === longer.length ? 1 : 0; // Substitution skips a char in both, insertion only in the longer
+  for (let j = i + skip; j < shorter.length; j++) {
+    if (shorter[j] !== longer[j + 1 - skip]) return false;
+  }
+  return true;
+};
+
+const keyValues = (row: CleanerRow, key: DedupeKey): string[] => {
+  switch (key) {
+    case 'douyinId': {
+      const id = normalizeDouyinId(row.抖音号);
+      return id ? [id] : [];
+    }
+    case 'contact': {
+      const text = `${row.联系方式 ?? ""} ${row.简介 ?? ""}`;
+      return [...extractPhones(text).map(p => `tel:${p}`), ...extractWechatIds(text).map(w => `wx:${w}`)];
+    }
+    case 'username': {
+      const name = normalizeUsername(row.用户名);
+      return name ? [name] : [];
+    }
+    case 'usernameFuzzy': {
+      const name = normalizeUsername(row.用户名);
+      return Array.from(name).length >= FUZZY_MIN_LENGTH ? deletionVariants(name) : [];
+    }
+  }
+};
+
+export const findDuplicateClusters = (rows: CleanerRow[], keys: DedupeKey[]): DuplicateCluster[] => {
+  const { find, union, hasConflict } = createUnionFind(rows.map(row => normalizeDouyinId(row.抖音号)));
+  const edges: [number, DedupeKey][] = [];
+  const fuzzyNames = keys.includes('usernameFuzzy') ? rows.map(row => Array.from(normalizeUsername(row.用户名))) : [];
+
+  keys.forEach(key => {
+    const groups = new Map<string, number[]>();
+    rows.forEach((row, index) => {
+      keyValues(row, key).forEach(value => {
+        const group = groups.get(value);
+        if (!group) {
+          groups.set(value, [index]);
+          return;
+        }
+        if (group[group.length - 1] === index) return; // A row's own variants can repeat ("aabc" -> "abc" twice)
+        // No key joins rows whose 抖音号 are both set and different: a shared switchboard number or
+        // company WeChat is not the same account. Rows sharing an exact value are all linked once one of them is;
+        // rows sharing a deletion variant are not, so each confirmed fuzzy match is linked on its own.
+        const targets = key === 'usernameFuzzy'
+          ? group.filter(other => isWithinOneEdit(fuzzyNames[other], fuzzyNames[index]))
+          : [group.find(other => !hasConflict(other, index))].filter((other): other is number => other !== undefined);
+        group.push(index);
+        targets.forEach(target => {
+          if (hasConflict(target, index)) return;
+          union(target, index);
+          edges.push([index, key]);
+        });
+      });
+    });
+  });
+
+  const members = new Map<number, number[]>();
+  rows.forEach((_, index) => {
+    const root = find(index);
+    const list = members.get(root);
+    if (list) list.push(index);
+    else members.set(root, [index]);
+  });
+
+  const reasons = new Map<number, Set<DedupeKey>>();
+  edges.forEach(([index, key]) => {
+    const root = find(index);
+    reasons.set(root, (reasons.get(root) || new Set()).add(key));
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  members.forEach((indices, root) => {
+    if (indices.length < 2) return;
+    clusters.push({
+      id: String(rows[root]._internal_id),
+      rows: indices.map(i => rows[i]),
+      reasons: keys.filter(k => reasons.get(root)?.has(k))
+    });
+  });
+  return clusters;
+};
+
+// --- Resolving a Cluster ---
+
+// Filled fields first, then total text length
+const completeness = (row: CleanerRow): [number, number] => [
+  CLUSTER_FIELDS.filter(f => isFilled(row[f])).length,
+  CLUSTER_FIELDS.reduce((sum, f) => sum + String(row[f] ?? "").trim().length, 0)
+];
+
+export const pickMostComplete = (rows: CleanerRow[]): CleanerRow =>
+  rows.reduce((best, row) => {
+    const [filledA, lengthA] = completeness(row);
+    const [filledB, lengthB] = completeness(best);
+    return filledA > filledB || (filledA === filledB && lengthA > lengthB) ? row : best;
+  });
+
+export interface ClusterResolution {
+  survivor: CleanerRow; // Replaces the row with the same _internal_id
+  removeIds: (number | string)[];
+}
+
+// Keep the chosen row as it is, or with fillGaps take its empty fields from the other copies (auto-merge)
+export const resolveCluster = (cluster: DuplicateCluster, survivorId: number | string, fillGaps: boolean): ClusterResolution => {
+  const chosen = cluster.rows.find(r => r._internal_id === survivorId) || cluster.rows[0];
+  const others = cluster.rows.filter(r => r !== chosen);
+  let survivor = chosen;
+  if (fillGaps) {
+    survivor = { ...chosen };
+    const fields = new Set(others.flatMap(r => Object.keys(r)));
+    fields.forEach(field => {
+      if (field === '_internal_id' || field === 'checkStatus' || isFilled(survivor[field])) return;
+      const donor = others.find(r => isFilled(r[field]));
+      if (donor) survivor[field] = donor[field];
+    });
+    // A bio filled in from another copy hasn't been checked yet
+    if (isFilled(survivor.简介) && !isFilled(chosen.简介)) survivor.checkStatus = 'unverified';
+  }
+  return { survivor, removeIds: others.map(r => r._internal_id!) };
+};
+
+export const autoMergeCluster = (cluster: DuplicateCluster): ClusterResolution =>
+  resolveCluster(cluster, pickMostComplete(cluster.rows)._internal_id!, true);
@@ -0,0 +1,109 @@
+import { utils, writeFile } from 'xlsx';
+import { CleanerRow, ExportColumn, ExportFormat, ExportProfile, CHECK_STATUS_LABELS } from "../types";
+import { parseFanCount } from "./rowSort";
+import { extractEmails, extractPhones, extractWechatIds } from "./contactParser";
+
+// Export profiles: which columns to write, in what order and under which names, plus the file format.
+// Besides the table columns, a profile can pick derived columns that split 联系方式 into phone/WeChat/email.
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  xlsx: 'Excel (.xlsx)',
+  csv_bom: 'CSV (UTF-8 带 BOM)',
+  csv: 'CSV (UTF-8)',
+  json: 'JSON',
+  ndjson: 'NDJSON (每行一条)'
+};
+
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = { xlsx: 'xlsx', csv: 'csv', csv_bom: 'csv', json: 'json', ndjson: 'ndjson' };
+
+// Derived columns are keyed "联系方式.xxx" so they can't collide with a table column
+export const DERIVED_EXPORT_COLUMNS: Record<string, { label: string; extract: (text: string) => string[] }> = {
+  '联系方式.手机': { label: '手机 (拆自联系方式)', extract: extractPhones },
+  '联系方式.微信': { label: '微信 (拆自联系方式)', extract: extractWechatIds },
+  '联系方式.邮箱': { label: '邮箱 (拆自联系方式)', extract: extractEmails }
+};
+
+// Column choices for the profile editor: the table's headers first, then the derived ones
+export const getExportSources = (headers: string[]) => [...headers, ...Object.keys(DERIVED_EXPORT_COLUMNS)];
+
+export const getExportSourceLabel = (source: string) => DERIVED_EXPORT_COLUMNS[source]?.label || source;
+
+const defaultHeader = (source: string) => source.startsWith('联系方式.') ? source.slice('联系方式.'.length) : source;
+
+export const createExportProfile = (name: string, headers: string[], format: ExportFormat = 'xlsx'): ExportProfile => ({
+  id: `export_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  format,
+  columns: headers.map((source): ExportColumn => ({ source, header: defaultHeader(source) })),
+  numericFanCount: false,
+  fileName: 'douyin_data_export',
+  timestampFileName: true
+});
+
+export const createExportColumn = (source: string): ExportColumn => ({ source, header: defaultHeader(source) });
+
+// --- Building Records ---
+
+const exportValue = (row: CleanerRow, source: string, profile: ExportProfile): any => {
+  if (source === '状态') return CHECK_STATUS_LABELS[row.checkStatus || 'unverified'];
+  const derived = DERIVED_EXPORT_COLUMNS[source];
+  if (derived) return derived.extract(String(row.联系方式 ?? "")).join(" / ");
+  // Unparseable counts ("未知") are written as they are rather than dropped
+  if (source === '粉丝数' && profile.numericFanCount) return parseFanCount(row.粉丝数) ?? (row.粉丝数 ?? "");
+  return row[source] ?? "";
+};
+
+export const buildExportRecords = (rows: CleanerRow[], profile: ExportProfile): Record<string, any>[] =>
+  rows.map(row => {
+    const record: Record<string, any> = {};
+    profile.columns.forEach(col => { record[col.header.trim()] = exportValue(row, col.source, profile); });
+    return record;
+  });
+
+// --- Writing Files ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const buildExportFileName = (profile: ExportProfile, now = new Date()) => {
+  const base = profile.fileName.trim() || 'douyin_data_export';
+  const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}_${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+  return `${profile.timestampFileName ? `${base}_${stamp}` : base}.${FORMAT_EXTENSIONS[profile.format]}`;
+};
+
+export const saveTextFile = (parts: string[], fileName: string, mimeType: string) => {
+  const blob = new Blob(parts, { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportRows = (rows: CleanerRow[], profile: ExportProfile) => {
+  const records = buildExportRecords(rows, profile);
+  const fileName = buildExportFileName(profile);
+  const headers = profile.columns.map(c => c.header.trim());
+
+  switch (profile.format) {
+    case 'json':
+      saveTextFile([JSON.stringify(records, null, 2)], fileName, 'application/json');
+      return;
+    case 'ndjson':
+      saveTextFile([records.map(r => JSON.stringify(r)).join("\n") + "\n"], fileName, 'application/x-ndjson');
+      return;
+    case 'csv':
+    case 'csv_bom': {
+      // Excel reads a CSV without a BOM as the system code page (GBK on Chinese Windows) and garbles it
+      const csv = utils.sheet_to_csv(utils.json_to_sheet(records, { header: headers }));
+      saveTextFile(profile.format === 'csv_bom' ? ['\ufeff', csv] : [csv], fileName, 'text/csv');
+      return;
+    }
+    case 'xlsx': {
+      const wb = utils.book_new();
+      utils.book_append_sheet(wb, utils.json_to_sheet(records, { header: headers }), "CleanedData");
+      writeFile(wb, fileName);
+      return;
+    }
+  }
+};
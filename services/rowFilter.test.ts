@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createConditionMatcher, isEmptyCondition, validateCondition } from './rowFilter';
+import { makeRow } from './testRows';
+
+describe('createConditionMatcher', () => {
+  it('matches text case-insensitively', () => {
+    const contains = createConditionMatcher('简介', { kind: 'text', operator: 'contains', value: 'fba' });
+    const notContains = createConditionMatcher('简介', { kind: 'text', operator: 'not_contains', value: 'fba' });
+    expect(contains(makeRow(1, { 简介: '美国FBA头程' }))).toBe(true);
+    expect(notContains(makeRow(1, { 简介: '美国FBA头程' }))).toBe(false);
+  });
+
+  it('matches regular expressions', () => {
+    const matches = createConditionMatcher('简介', { kind: 'text', operator: 'regex', value: '^美(国|线)' });
+    expect(matches(makeRow(1, { 简介: '美线海派' }))).toBe(true);
+    expect(matches(makeRow(1, { 简介: '欧洲美线' }))).toBe(false);
+  });
+
+  it('compares 粉丝数 ranges by parsed value and never matches unreadable cells', () => {
+    const matches = createConditionMatcher('粉丝数', { kind: 'range', min: 10000, max: 50000 });
+    expect(matches(makeRow(1, { 粉丝数: '1.2w' }))).toBe(true);
+    expect(matches(makeRow(1, { 粉丝数: '8000' }))).toBe(false);
+    expect(matches(makeRow(1, { 粉丝数: '' }))).toBe(false);
+  });
+});
+
+describe('validateCondition', () => {
+  it('reports bad regexes and inverted ranges', () => {
+    expect(validateCondition({ kind: 'text', operator: 'regex', value: '(' })).toMatch(/^正则表达式无效/);
+    expect(validateCondition({ kind: 'range', min: 5, max: 1 })).toBe('最小值不能大于最大值');
+    expect(validateCondition({ kind: 'range', min: 1, max: null })).toBeNull();
+  });
+
+  it('treats conditions without text or bounds as empty', () => {
+    expect(isEmptyCondition({ kind: 'text', operator: 'contains', value: '' })).toBe(true);
+    expect(isEmptyCondition({ kind: 'range', min: null, max: null })).toBe(true);
+  });
+});
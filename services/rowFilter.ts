@@ -0,0 +1,54 @@
+import { CleanerRow, ColumnCondition } from "../types";
+import { parseNumericCell } from "./rowSort";
+
+// Condition filters for the grid (contains / not contains / regex, numeric ranges).
+// The checkbox value filters stay in DataGrid; these cover free-text columns like 简介 where value lists are useless.
+
+// Returns a Chinese error message for conditions that cannot be applied, or null if valid
+export const validateCondition = (condition: ColumnCondition): string | null => {
+  if (condition.kind === 'range') {
+    if (condition.min !== null && condition.max !== null && condition.min > condition.max) {
+      return "最小值不能大于最大值";
+    }
+    return null;
+  }
+  if (condition.operator === 'regex') {
+    try {
+      new RegExp(condition.value, 'i');
+    } catch (e) {
+      return `正则表达式无效: ${(e as Error).message}`;
+    }
+  }
+  return null;
+};
+
+// An empty condition (no text, no bounds) filters nothing and is not stored
+export const isEmptyCondition = (condition: ColumnCondition) =>
+  condition.kind === 'range' ? condition.min === null && condition.max === null : condition.value === "";
+
+// Build the row predicate once per filter pass, so the regex is compiled once rather than per row
+export const createConditionMatcher = (column: string, condition: ColumnCondition): ((row: CleanerRow) => boolean) => {
+  if (condition.kind === 'range') {
+    const { min, max } = condition;
+    // Rows without a readable number never match a range
+    return row => {
+      const num = parseNumericCell(column, row[column]);
+      if (num === null) return false;
+      return (min === null || num >= min) && (max === null || num <= max);
+    };
+  }
+
+  const cellText = (row: CleanerRow) => String(row[column] ?? "").toLowerCase();
+  const needle = condition.value.toLowerCase();
+  switch (condition.operator) {
+    case 'contains':
+      return row => cellText(row).includes(needle);
+    case 'not_contains':
+      return row => !cellText(row).includes(needle);
+    case 'regex': {
+      if (validateCondition(condition)) return () => true;
+      const pattern = new RegExp(condition.value, 'i');
+      return row => pattern.test(String(row[column] ?? ""));
+    }
+  }
+};
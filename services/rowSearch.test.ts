@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createCellMatcher, findMatches } from './rowSearch';
+import { makeRow } from './testRows';
+
+const plain = { pinyin: false, fuzzy: false };
+
+describe('createCellMatcher', () => {
+  it('matches substrings case-insensitively in plain mode', () => {
+    const matches = createCellMatcher(' FBA ', plain);
+    expect(matches(makeRow(1, { 简介: '美国fba头程' }), '简介')).toBe(true);
+    expect(matches(makeRow(1, { 简介: '美国海派' }), '简介')).toBe(false);
+  });
+
+  it('matches Chinese text by full pinyin or initials only in pinyin mode', () => {
+    const target = makeRow(1, { 用户名: '深圳国际物流' });
+    expect(createCellMatcher('wuliu', plain)(target, '用户名')).toBe(false);
+    expect(createCellMatcher('wuliu', { pinyin: true, fuzzy: false })(target, '用户名')).toBe(true);
+    expect(createCellMatcher('szgj', { pinyin: true, fuzzy: false })(target, '用户名')).toBe(true);
+  });
+
+  it('matches query characters in order with gaps in fuzzy mode', () => {
+    const target = makeRow(1, { 用户名: '深圳国际物流' });
+    expect(createCellMatcher('深物', { pinyin: false, fuzzy: true })(target, '用户名')).toBe(true);
+    expect(createCellMatcher('物深', { pinyin: false, fuzzy: true })(target, '用户名')).toBe(false);
+  });
+});
+
+describe('findMatches', () => {
+  it('lists matching cells in row order, then column order', () => {
+    const rows = [makeRow(1, { 简介: '物流专线' }), makeRow(2, { 用户名: '物流小王', 简介: '美线物流' })];
+    expect(findMatches(rows, ['用户名', '简介'], '物流', plain)).toEqual([
+      { rowIndex: 0, rowId: 1, column: '简介' },
+      { rowIndex: 1, rowId: 2, column: '用户名' },
+      { rowIndex: 1, rowId: 2, column: '简介' }
+    ]);
+    expect(findMatches(rows, ['用户名'], '  ', plain)).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { pinyin } from "pinyin-pro";
+import { CleanerRow } from "../types";
+
+// Global search across all grid columns.
+// Plain mode is a case-insensitive substring match. Pinyin mode also lets a latin query match Chinese text
+// by full pinyin or initials ("wuliu" / "wl" -> 物流); fuzzy mode matches the query characters in order with gaps.
+
+export interface SearchOptions {
+  pinyin: boolean;
+  fuzzy: boolean;
+}
+
+export interface SearchMatch {
+  rowIndex: number; // Index in the searched (filtered/sorted) row list
+  rowId: number | string;
+  column: string;
+}
+
+// Pinyin conversion is the expensive part, so it is skipped for long free text (bios) and cached per row object.
+// Rows are replaced rather than mutated on edit, so the cache never serves stale text.
+const PINYIN_MAX_CELL_LENGTH = 50;
+const CJK_PATTERN = /[\u4e00-\u9fff]/;
+const pinyinCache = new WeakMap<CleanerRow, Map<string, string[]>>();
+
+const getPinyinForms = (row: CleanerRow, column: string, text: string): string[] => {
+  let rowCache = pinyinCache.get(row);
+  if (!rowCache) {
+    rowCache = new Map();
+    pinyinCache.set(row, rowCache);
+  }
+  let forms = rowCache.get(column);
+  if (!forms) {
+    forms = [
+      pinyin(text, { toneType: 'none', separator: '', nonZh: 'consecutive' }).toLowerCase(),
+      pinyin(text, { pattern: 'first', toneType: 'none', separator: '', nonZh: 'consecutive' }).toLowerCase()
+    ];
+    rowCache.set(column, forms);
+  }
+  return forms;
+};
+
+// Query characters appear in order, not necessarily adjacent ("深物" matches "深圳国际物流")
+const isSubsequence = (needle: string, haystack: string) => {
+  let n = 0;
+  for (let h = 0; h < haystack.length && n < needle.length; h++) {
+    if (haystack[h] === needle[n]) n++;
+  }
+  return n === needle.length;
+};
+
+export const createCellMatcher = (query: string, options: SearchOptions) => {
+  const needle = query.trim().toLowerCase();
+  const compactNeedle = needle.replace(/\s+/g, "");
+  const isLatinQuery = /^[a-z]+$/.test(compactNeedle);
+
+  return (row: CleanerRow, column: string): boolean => {
+    const raw = row[column];
+    if (raw === null || raw === undefined || raw === "") return false;
+    const text = String(raw);
+    const lower = text.toLowerCase();
+
+    if (lower.includes(needle)) return true;
+    if (options.fuzzy && isSubsequence(compactNeedle, lower.replace(/\s+/g, ""))) return true;
+    if (options.pinyin && isLatinQuery && text.length <= PINYIN_MAX_CELL_LENGTH && CJK_PATTERN.test(text)) {
+      const [full, initials] = getPinyinForms(row, column, text);
+      if (full.includes(compactNeedle) || initials.includes(compactNeedle)) return true;
+      if (options.fuzzy && isSubsequence(compactNeedle, full)) return true;
+    }
+    return false;
+  };
+};
+
+// All matching cells in row order, then column order (the order "next" walks through)
+export const findMatches = (rows: CleanerRow[], columns: string[], query: string, options: SearchOptions): SearchMatch[] => {
+  if (!query.trim()) return [];
+  const matches = createCellMatcher(query, options);
+  const result: SearchMatch[] = [];
+  rows.forEach((row, rowIndex) => {
+    columns.forEach(column => {
+      if (matches(row, column)) result.push({ rowIndex, rowId: row._internal_id!, column });
+    });
+  });
+  return result;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { CleanerRow } from '../types';
+import { parseFanCount, sortRows } from './rowSort';
+import { makeRow } from './testRows';
+
+const ids = (rows: CleanerRow[]) => rows.map(r => r._internal_id);
+
+describe('parseFanCount', () => {
+  it('understands units, separators and full-width text', () => {
+    expect(parseFanCount('1.2w')).toBe(12000);
+    expect(parseFanCount('3.5万+')).toBe(35000);
+    expect(parseFanCount('8K')).toBe(8000);
+    expect(parseFanCount('12,345')).toBe(12345);
+    expect(parseFanCount('２亿')).toBe(200000000);
+    expect(parseFanCount('暂无')).toBeNull();
+  });
+});
+
+describe('sortRows', () => {
+  const rows = [
+    makeRow(1, { 用户名: '用户10', 粉丝数: '1.2w' }),
+    makeRow(2, { 用户名: '用户2', 粉丝数: '' }),
+    makeRow(3, { 用户名: '用户2', 粉丝数: '8000' }),
+    makeRow(4, { 用户名: '', 粉丝数: '3万' })
+  ];
+
+  it('sorts 粉丝数 by value with blanks last in both directions', () => {
+    expect(ids(sortRows(rows, [{ column: '粉丝数', direction: 'asc' }]))).toEqual([3, 1, 4, 2]);
+    expect(ids(sortRows(rows, [{ column: '粉丝数', direction: 'desc' }]))).toEqual([4, 1, 3, 2]);
+  });
+
+  it('sorts text with numbers in natural order and applies secondary keys', () => {
+    expect(ids(sortRows(rows, [{ column: '用户名', direction: 'asc' }, { column: '粉丝数', direction: 'desc' }]))).toEqual([3, 2, 1, 4]);
+  });
+
+  it('keeps table order for ties and returns the input when there are no keys', () => {
+    expect(ids(sortRows(rows, [{ column: '简介', direction: 'asc' }]))).toEqual([1, 2, 3, 4]);
+    expect(sortRows(rows, [])).toBe(rows);
+  });
+});
@@ -0,0 +1,90 @@
+import { CleanerRow, SortKey } from "../types";
+
+// Multi-key sorting for the grid.
+// 粉丝数 is stored as display text ("1.2w", "3.5万", "8k"), so it is parsed into a number before comparing.
+
+const FAN_UNIT_MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  千: 1e3,
+  w: 1e4,
+  万: 1e4,
+  m: 1e6,
+  亿: 1e8
+};
+
+// "1.2w" -> 12000, "3.5万+" -> 35000, "8K" -> 8000, "12,345" -> 12345. Returns null when there is no number.
+export const parseFanCount = (val: unknown): number | null => {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (val === null || val === undefined) return null;
+
+  const text = String(val).normalize("NFKC").replace(/[,，\s]/g, "");
+  const match = text.match(/(\d+(?:\.\d+)?)([kKwWmM千万亿])?/);
+  if (!match) return null;
+
+  const unit = match[2] ? FAN_UNIT_MULTIPLIERS[match[2].toLowerCase()] : 1;
+  return Math.round(parseFloat(match[1]) * unit);
+};
+
+// Columns compared as numbers; everything else is compared as text
+const NUMERIC_COLUMNS: Record<string, (val: unknown) => number | null> = {
+  粉丝数: parseFanCount,
+  AI置信度: val => {
+    if (val === null || val === undefined || val === "") return null;
+    const num = Number(val);
+    return Number.isNaN(num) ? null : num;
+  }
+};
+
+export const isNumericColumn = (column: string) => Object.prototype.hasOwnProperty.call(NUMERIC_COLUMNS, column);
+
+// Numeric value of a cell in a numeric column, or null when blank/unparseable
+export const parseNumericCell = (column: string, val: unknown): number | null => {
+  return isNumericColumn(column) ? NUMERIC_COLUMNS[column](val) : null;
+};
+
+const STATUS_ORDER: Record<string, number> = { flagged: 0, unverified: 1, verified: 2 };
+
+// numeric: true so "用户2" sorts before "用户10"
+const textCollator = new Intl.Collator("zh-CN", { numeric: true });
+
+type SortValue = number | string | null;
+
+const toSortValue = (row: CleanerRow, column: string): SortValue => {
+  if (column === '状态') return STATUS_ORDER[row.checkStatus || 'unverified'];
+  if (isNumericColumn(column)) return parseNumericCell(column, row[column]);
+  const text = String(row[column] ?? "").trim();
+  return text === "" ? null : text;
+};
+
+// Blank cells always go last, whatever the direction
+const compareValues = (a: SortValue, b: SortValue): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return textCollator.compare(String(a), String(b));
+};
+
+// Stable sort: rows that tie on every key keep their table order
+export const sortRows = (rows: CleanerRow[], sortKeys: SortKey[]): CleanerRow[] => {
+  if (sortKeys.length === 0) return rows;
+
+  // Compute each row's keys once instead of re-parsing inside the comparator (n log n parses at 100k rows)
+  const decorated = rows.map((row, index) => ({
+    row,
+    index,
+    values: sortKeys.map(key => toSortValue(row, key.column))
+  }));
+
+  decorated.sort((a, b) => {
+    for (let k = 0; k < sortKeys.length; k++) {
+      const va = a.values[k];
+      const vb = b.values[k];
+      if (va === vb) continue;
+      if (va === null) return 1;
+      if (vb === null) return -1;
+      const diff = compareValues(va, vb);
+      if (diff !== 0) return sortKeys[k].direction === 'asc' ? diff : -diff;
+    }
+    return a.index - b.index;
+  });
+
+  return decorated.map(d => d.row);
+};
@@ -0,0 +1,111 @@
+import { read, utils, WorkSheet } from 'xlsx';
+
+// Reads dropped/selected files into raw sheets for the import dialog.
+// A CSV becomes one source; a workbook becomes one source per non-empty sheet.
+
+export type CsvEncoding = 'utf-8' | 'gb18030' | 'utf-16le' | 'utf-16be';
+
+// GB18030 is a superset of GBK, so one decoder covers CSVs saved by Excel on Chinese Windows
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  gb18030: 'GBK / GB18030',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE'
+};
+
+export interface ImportSource {
+  id: string;
+  fileName: string;
+  sheetName: string;
+  label: string; // Written to the optional 来源 column
+  headers: string[];
+  rows: any[][]; // Data rows (header row excluded)
+  // CSV only: the raw bytes are kept so the dialog can decode them again with another encoding
+  csv?: { bytes: ArrayBuffer; encoding: CsvEncoding; detected: CsvEncoding };
+}
+
+export const ACCEPTED_EXTENSIONS = ['csv', 'xlsx', 'xls'];
+
+export const getFileExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+const readFile = (file: File): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+// --- Encoding Detection ---
+
+export const detectCsvEncoding = (buffer: ArrayBuffer): CsvEncoding => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+
+  // Without a BOM, UTF-16 gives itself away through the zero high bytes of ASCII characters (commas, digits, newlines)
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((b, i) => {
+    if (b !== 0) return;
+    if (i % 2) oddZeros++;
+    else evenZeros++;
+  });
+  const pairs = sample.length / 2;
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+
+  // Chinese text in GBK is practically never valid UTF-8, so a strict decode tells the two apart
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'gb18030';
+  }
+};
+
+// --- Parsing ---
+
+type SourceBase = Omit<ImportSource, 'headers' | 'rows'>;
+
+const parseSheet = (sheet: WorkSheet, base: SourceBase): ImportSource => {
+  const grid = utils.sheet_to_json<any[]>(sheet, { header: 1, defval: "", raw: false });
+  // Blank headers get a positional name so the column can still be mapped
+  const headers = (grid[0] || []).map((h, i) => String(h || "").trim() || `列${i + 1}`);
+  return { ...base, headers, rows: grid.slice(1) };
+};
+
+const parseCsv = (base: Omit<SourceBase, 'csv'>, bytes: ArrayBuffer, encoding: CsvEncoding, detected: CsvEncoding) => {
+  // TextDecoder drops a leading BOM by itself
+  const text = new TextDecoder(encoding).decode(bytes);
+  const workbook = read(text, { type: 'string', cellDates: true, cellNF: true, cellText: false });
+  return parseSheet(workbook.Sheets[workbook.SheetNames[0]], { ...base, csv: { bytes, encoding, detected } });
+};
+
+// Re-reads a CSV source after the user overrides the detected encoding
+export const decodeCsvSource = (source: ImportSource, encoding: CsvEncoding): ImportSource => {
+  if (!source.csv) return source;
+  const { csv, headers, rows, ...base } = source;
+  return parseCsv(base, csv.bytes, encoding, csv.detected);
+};
+
+export const readImportSources = async (file: File): Promise<ImportSource[]> => {
+  const content = await readFile(file);
+  let sources: ImportSource[];
+
+  if (getFileExtension(file.name) === 'csv') {
+    const encoding = detectCsvEncoding(content);
+    sources = [parseCsv({ id: `${file.name}#0`, fileName: file.name, sheetName: '', label: file.name }, content, encoding, encoding)];
+  } else {
+    const workbook = read(content, { type: 'array', cellDates: true, cellNF: true, cellText: false });
+    sources = workbook.SheetNames.map((sheetName, sheetIndex) => parseSheet(workbook.Sheets[sheetName], {
+      id: `${file.name}#${sheetIndex}`,
+      fileName: file.name,
+      sheetName,
+      label: `${file.name} / ${sheetName}`
+    }));
+  }
+  return sources.filter(src => src.rows.length > 0); // Empty, or a header row only
+};
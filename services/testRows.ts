@@ -0,0 +1,6 @@
+import { CleanerRow } from '../types';
+
+// Shared by the service tests: a table row with every required field empty unless given
+export const makeRow = (id: number, fields: Partial<CleanerRow> = {}): CleanerRow => ({
+  _internal_id: id, checkStatus: 'unverified', 用户名: '', 抖音号: '', 粉丝数: '', 简介: '', 联系方式: '', ...fields
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { chunkItemsByTokens, chunkTextByTokens, estimateTokens } from './textChunker';
+
+const profile = (n: number) => `用户${n}\n抖音号: user_${n}\n粉丝: ${n}w\n简介: 美线海派双清包税，专业FBA头程运输服务\n`;
+
+describe('estimateTokens', () => {
+  it('counts CJK characters as one token and other text at four characters per token', () => {
+    expect(estimateTokens('物流')).toBe(2);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('物流abc')).toBe(3);
+  });
+});
+
+describe('chunkTextByTokens', () => {
+  it('returns a single chunk when the text fits', () => {
+    const text = profile(1);
+    expect(chunkTextByTokens(text, { maxTokens: 6000, overlapTokens: 200 })).toEqual([text]);
+  });
+
+  it('keeps every chunk within the budget and every line in some chunk', () => {
+    const text = Array.from({ length: 200 }, (_, i) => profile(i)).join('\n');
+    const chunks = chunkTextByTokens(text, { maxTokens: 600, overlapTokens: 100 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(600));
+    const covered = new Set(chunks.flatMap(chunk => chunk.split('\n')));
+    text.split('\n').filter(line => line.trim()).forEach(line => expect(covered.has(line)).toBe(true));
+  });
+
+  it('cuts before a username line so profiles are not split across chunks', () => {
+    const text = Array.from({ length: 200 }, (_, i) => profile(i)).join('\n');
+    const chunks = chunkTextByTokens(text, { maxTokens: 600, overlapTokens: 0 });
+
+    chunks.slice(1).forEach(chunk => expect(chunk.trimStart()).toMatch(/^用户\d+\n抖音号/));
+  });
+
+  it('repeats the end of each chunk at the start of the next', () => {
+    const text = Array.from({ length: 200 }, (_, i) => profile(i)).join('\n');
+    const chunks = chunkTextByTokens(text, { maxTokens: 600, overlapTokens: 100 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      const firstLine = chunks[i].split('\n').find(line => line.trim())!;
+      expect(chunks[i - 1]).toContain(firstLine);
+    }
+  });
+
+  it('splits one huge line without newlines into budget-sized slices', () => {
+    const line = '美线海派双清包税abcd'.repeat(100_000);
+    const chunks = chunkTextByTokens(line, { maxTokens: 1000, overlapTokens: 0 });
+
+    expect(chunks.join('')).toBe(line);
+    chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(1000));
+    expect(estimateTokens(chunks[0])).toBe(1000);
+  });
+});
+
+describe('chunkItemsByTokens', () => {
+  it('starts a new batch when the token budget or the item cap is reached', () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    expect(chunkItemsByTokens(items, () => 'x'.repeat(400), 500, 50).map(b => b.length)).toEqual([5, 5]);
+    expect(chunkItemsByTokens(items, () => 'x', 500, 3).map(b => b.length)).toEqual([3, 3, 3, 1]);
+  });
+});
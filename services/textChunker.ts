@@ -0,0 +1,143 @@
+// Token-aware sliding window for the extraction step.
+// Replaces the fixed 500-line window: chunks are sized by an estimated token count, prefer to end
+// on a detectable profile boundary, and overlap the previous chunk by a token budget.
+
+export interface ChunkingOptions {
+  maxTokens: number; // Estimated input tokens per request
+  overlapTokens: number; // Estimated tokens repeated from the end of the previous chunk
+}
+
+export const DEFAULT_CHUNK_TOKENS = 6000;
+export const DEFAULT_OVERLAP_TOKENS = 200;
+export const MIN_CHUNK_TOKENS = 500;
+
+// Rough estimate without a tokenizer: CJK characters are ~1 token each, other text ~4 characters per token.
+// Errs on the high side so a chunk never overflows the model context.
+const CJK_CHAR = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+const CJK_CHARS = new RegExp(CJK_CHAR.source, 'g');
+
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(CJK_CHARS) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+// "抖音号: xxx" / "抖音ID：xxx" lines sit right below the username that starts a profile
+const PROFILE_ID_LINE = /^\s*(抖音号|抖音ID|抖音id|douyin\s*id)\s*[:：]/i;
+
+// A cut *before* line i is preferred if line i is blank, or if it is the username line above an ID line
+const isBoundaryBefore = (lines: string[], i: number) =>
+  lines[i].trim() === '' || (i + 1 < lines.length && PROFILE_ID_LINE.test(lines[i + 1]));
+
+// Split a single line that alone exceeds the budget into character slices.
+// Keeps the same counts estimateTokens would produce, one character at a time, so a huge line stays linear.
+const splitLongLine = (line: string, maxTokens: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  let cjk = 0;
+  let other = 0; // In UTF-16 code units, matching text.length in estimateTokens
+  for (const ch of line) {
+    const isCjk = CJK_CHAR.test(ch);
+    const nextCjk = cjk + (isCjk ? 1 : 0);
+    const nextOther = other + (isCjk ? 0 : ch.length);
+    if (current && nextCjk + Math.ceil(nextOther / 4) > maxTokens) {
+      pieces.push(current);
+      current = '';
+      cjk = 0;
+      other = 0;
+    }
+    current += ch;
+    if (isCjk) cjk++;
+    else other += ch.length;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+export const chunkTextByTokens = (fullText: string, options: ChunkingOptions): string[] => {
+  const maxTokens = Math.max(MIN_CHUNK_TOKENS, options.maxTokens);
+  // Overlap must leave room for new content, otherwise the window never advances
+  const overlapTokens = Math.max(0, Math.min(options.overlapTokens, Math.floor(maxTokens / 2)));
+
+  const lines = fullText
+    .split('\n')
+    .flatMap(line => estimateTokens(line) > maxTokens ? splitLongLine(line, maxTokens) : [line]);
+  const lineTokens = lines.map(line => estimateTokens(line) + 1); // +1 for the newline
+
+  const chunks: string[] = [];
+  let start = 0;
+  let prevEnd = 0; // End of the previous chunk; every chunk must reach past it
+
+  while (start < lines.length) {
+    // 1. Grow the window until the budget is reached
+    let end = start;
+    let used = 0;
+    while (end < lines.length && used + lineTokens[end] <= maxTokens) {
+      used += lineTokens[end];
+      end++;
+    }
+    if (end === start) end = start + 1; // Always take at least one line
+
+    // The overlap left no room for new lines (the next line is huge): drop the overlap for this chunk
+    if (end <= prevEnd) {
+      start = prevEnd;
+      continue;
+    }
+
+    // 2. If we stopped early, pull the cut back to the last profile boundary in the second half of the window
+    if (end < lines.length) {
+      let boundaryUsed = used;
+      for (let i = end - 1; i > Math.max(start, prevEnd); i--) {
+        boundaryUsed -= lineTokens[i];
+        if (boundaryUsed < maxTokens / 2) break;
+        if (isBoundaryBefore(lines, i)) {
+          end = i;
+          break;
+        }
+      }
+    }
+
+    const chunk = lines.slice(start, end).join('\n');
+    if (chunk.trim()) chunks.push(chunk);
+    if (end >= lines.length) break;
+    prevEnd = end;
+
+    // 3. Step back by the overlap budget for the next window, but always make progress
+    let nextStart = end;
+    let overlapUsed = 0;
+    while (nextStart - 1 > start && overlapUsed + lineTokens[nextStart - 1] <= overlapTokens) {
+      nextStart--;
+      overlapUsed += lineTokens[nextStart];
+    }
+    start = nextStart;
+  }
+
+  return chunks;
+};
+
+// Group items (e.g. table rows for the relevance filter) into batches that each stay under a token budget.
+// `maxItems` caps batch length as well, since the model's answer grows with the number of rows.
+export const chunkItemsByTokens = <T>(
+  items: T[],
+  toText: (item: T) => string,
+  maxTokens: number,
+  maxItems: number
+): T[][] => {
+  const budget = Math.max(MIN_CHUNK_TOKENS, maxTokens);
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+
+  items.forEach(item => {
+    const tokens = estimateTokens(toText(item));
+    if (current.length > 0 && (used + tokens > budget || current.length >= maxItems)) {
+      batches.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += tokens;
+  });
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+};
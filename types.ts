@@ -1,22 +1,94 @@
 
+// unverified: not checked yet; verified: kept by AI or reviewer;
+// flagged: AI proposed removal, waiting for a human to accept (delete) or reject (keep)
+export type CheckStatus = 'unverified' | 'verified' | 'flagged';
+
 // The standardized row structure for the Data Cleaner
 export interface CleanerRow {
   _internal_id?: number | string; // React Key
-  checkStatus?: 'unverified' | 'verified'; // Track if row has been checked by AI
+  checkStatus?: CheckStatus; // Track if row has been checked by AI
   用户名: string;
   抖音号: string;
   粉丝数: string | number;
   简介: string;
   联系方式: string;
+  // Relevance verdict columns, filled by the AI filter
+  AI判定?: string;
+  AI分类?: string;
+  AI置信度?: number | string; // Percentage 0-100
+  AI理由?: string;
+  // Contacts parsed locally from 联系方式 + 简介, " / "-joined (see contactParser)
+  手机?: string;
+  座机?: string; // "0755-12345678"
+  微信?: string;
+  QQ?: string;
+  邮箱?: string;
+  联系方式检查?: string; // Empty when a usable contact was found, otherwise what is missing or wrong
   [key: string]: any; // Allow dynamic access
 }
 
+// Display text for checkStatus (grid, export, dedupe)
+export const CHECK_STATUS_LABELS: Record<CheckStatus, string> = { verified: '已验证', flagged: '待审核', unverified: '待检查' };
+
+// Optional column recording the file/sheet a row was imported from
+export const SOURCE_COLUMN = '来源';
+
+// Structured contact columns and their check column, added to the grid once contacts have been parsed
+export const CONTACT_FIELDS = ['手机', '座机', '微信', 'QQ', '邮箱'];
+export const CONTACT_CHECK_COLUMN = '联系方式检查';
+
+// Columns written by the AI relevance filter; shown read-only in the grid
+export const AI_VERDICT_HEADERS = ['AI判定', 'AI分类', 'AI置信度', 'AI理由'];
+
 export interface ParsedProfile {
   username: string;
   douyinId: string;
   fans: string;
   bio: string;
   contact: string;
+  [key: string]: unknown; // User-defined extraction fields, by ExtractField.key
+}
+
+// A sliding-window chunk that still failed after retries, kept so the user can re-run it
+export interface FailedChunk {
+  index: number;
+  text: string;
+  error: string;
+}
+
+export interface ExtractionResult {
+  profiles: ParsedProfile[];
+  totalChunks: number;
+  completedCount: number;
+  failedChunks: FailedChunk[];
+  cancelledChunks: FailedChunk[]; // Not run because the user pressed Stop
+  mergedCount: number; // Duplicates from overlapping windows folded into one record
+}
+
+// One table row as sent to the relevance filter
+export interface RelevanceInput {
+  id: number | string;
+  text: string;
+}
+
+// The model's explained decision for one row
+export interface RelevanceVerdict {
+  id: number | string;
+  verdict: 'keep' | 'remove';
+  category: string; // Industry category, e.g. 空运 / 海运 / 海外仓 / 货代 / 无关
+  confidence: number; // 0..1
+  reason: string;
+}
+
+export interface FilterRunResult {
+  totalBatches: number;
+  completedCount: number;
+  failedCount: number; // Rows in failed batches stay unverified and are picked up by the next run
+  cancelledCount: number;
+  flaggedIds: (number | string)[]; // Proposed removals, queued for review rather than deleted
+  verifiedIds: (number | string)[];
+  skippedCount: number; // Rows the model returned no verdict for; they stay unverified
+  lastError?: string;
 }
 
 export interface AIResponse {
@@ -25,3 +97,165 @@ export interface AIResponse {
 }
 
 export type SheetRow = CleanerRow;
+
+// --- LLM Provider Settings ---
+export type LlmProviderId = 'openrouter' | 'openai_compatible' | 'gemini';
+
+// Per-provider connection details, remembered separately so switching vendors keeps each key/model
+export interface LlmProviderSettings {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+export interface LlmSettings {
+  activeProvider: LlmProviderId;
+  concurrency: number; // Parallel requests per batched job
+  chunkTokenBudgets: Record<string, number>; // Per-model token budget per request, keyed by "provider:model"
+  overlapTokens: number; // Tokens repeated between neighbouring extraction chunks
+  providers: Record<LlmProviderId, LlmProviderSettings>;
+}
+
+// The resolved connection handed to the AI services for a single job
+export interface LlmConfig extends LlmProviderSettings {
+  provider: LlmProviderId;
+}
+
+// --- Grid ---
+
+export type SortDirection = 'asc' | 'desc';
+
+// One level of a (possibly multi-key) grid sort; earlier keys take priority
+export interface SortKey {
+  column: string;
+  direction: SortDirection;
+}
+
+export type TextConditionOperator = 'contains' | 'not_contains' | 'regex';
+
+// Condition filter on one column, applied on top of the checkbox value filter
+export type ColumnCondition =
+  | { kind: 'text'; operator: TextConditionOperator; value: string }
+  | { kind: 'range'; min: number | null; max: number | null }; // Numeric columns (粉丝数 after unit parsing)
+
+// A named combination of filters and sort, saved with the project
+export interface GridView {
+  id: string;
+  name: string;
+  valueFilters: Record<string, string[]>; // Column -> allowed values
+  conditions: Record<string, ColumnCondition>;
+  uniqueColumns: string[];
+  sortKeys: SortKey[];
+}
+
+// --- Import ---
+
+// What to do with an imported row that matches an existing one
+export type ImportStrategy = 'skip' | 'overwrite' | 'fill_empty';
+
+// Fields used to decide that an imported row is already in the table (compared after normalization)
+export type ImportMatchKey = '抖音号' | '联系方式' | '用户名';
+
+export interface ImportMergeOptions {
+  strategy: ImportStrategy;
+  matchKeys: ImportMatchKey[]; // Empty = append everything
+}
+
+// Counts of imported rows by outcome
+export interface ImportSummary {
+  added: number;
+  merged: number; // Duplicates whose values were written into the matching row
+  skipped: number; // Duplicates that changed nothing
+}
+
+// --- Export ---
+
+// csv_bom: UTF-8 with a BOM so Excel opens it without garbling; ndjson: one JSON object per line
+export type ExportFormat = 'xlsx' | 'csv' | 'csv_bom' | 'json' | 'ndjson';
+
+export interface ExportColumn {
+  source: string; // A table column (状态 included) or a derived contact column, see rowExport
+  header: string; // Name written to the file, e.g. the CRM's field name
+}
+
+// A saved export recipe, kept with the project
+export interface ExportProfile {
+  id: string;
+  name: string;
+  format: ExportFormat;
+  columns: ExportColumn[]; // In output order
+  numericFanCount: boolean; // Write 粉丝数 as a number ("1.2w" -> 12000)
+  fileName: string; // Without extension
+  timestampFileName: boolean; // Append _yyyyMMdd_HHmmss
+}
+
+// --- Pre-filter Rules ---
+
+// keep / remove decide the row locally (same effect as an AI verdict); defer sends it to the AI without checking later rules
+export type PrefilterAction = 'keep' | 'remove' | 'defer';
+
+export type PrefilterField = 'all' | '用户名' | '简介';
+
+// A keyword/regex rule run before the AI relevance check; the first matching rule decides
+export interface PrefilterRule {
+  id: string;
+  enabled: boolean;
+  field: PrefilterField;
+  pattern: string; // Keywords separated by |, or a regular expression when isRegex
+  isRegex: boolean;
+  action: PrefilterAction;
+  category: string; // Written to AI分类 for keep/remove, e.g. 清关 / 无关
+}
+
+// --- Prompt Templates ---
+
+export type PromptKind = 'extract' | 'filter';
+
+export interface PromptVersion {
+  content: string;
+  savedAt: number;
+  note: string;
+}
+
+// A named prompt in the shared library; every save appends a version, the last one is current
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  kind: PromptKind;
+  versions: PromptVersion[]; // Oldest first, never empty
+}
+
+// --- Extraction Schema ---
+
+// string_list: e.g. several routes mentioned in one bio, joined with " / " in the table
+export type ExtractFieldType = 'string' | 'number' | 'boolean' | 'string_list';
+
+// A user-defined field extracted alongside the built-in ones
+export interface ExtractField {
+  id: string;
+  key: string; // JSON property in the model's output, e.g. "location"
+  column: string; // Table column the value is written to, e.g. 所在地
+  description: string; // Tells the model what to extract
+  type: ExtractFieldType;
+}
+
+// --- Projects ---
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  rowCount: number;
+}
+
+// Per-project settings. API keys are not stored here; they stay global to the machine.
+export interface ProjectSettings {
+  filterPrompt: string;
+  extractPrompt: string;
+  defaultPromptIds: Partial<Record<PromptKind, string>>; // Library template the prompt resets to
+  llm: LlmSettings;
+  views: GridView[];
+  exportProfiles: ExportProfile[];
+  prefilterRules: PrefilterRule[];
+  extractFields: ExtractField[];
+}